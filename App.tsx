@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { Platform, PermissionsAndroid, Alert } from 'react-native';
-import HomeScreen from './src/screens/HomeScreen';
+import AppNavigator from './src/navigation/AppNavigator';
+import { SpeedTestProvider, useSettings } from './src/hooks/SpeedTestContext';
 
 const requestAndroidPermissions = async (): Promise<boolean> => {
   if (Platform.OS !== 'android') return true;
@@ -33,6 +34,19 @@ const requestAndroidPermissions = async (): Promise<boolean> => {
   }
 };
 
+// Espera a los ajustes: autoStartOnLaunch decide la ruta inicial de Test y
+// HomeScreen lanza el test (con la confirmación de datos móviles)
+const AppContent: React.FC = () => {
+  const { settings, settingsLoaded } = useSettings();
+  if (!settingsLoaded) return null;
+
+  return (
+    <AppNavigator
+      initialTestRoute={settings.autoStartOnLaunch ? { name: 'test', autoStart: true } : undefined}
+    />
+  );
+};
+
 const App: React.FC = () => {
   useEffect(() => {
     const initializeApp = async () => {
@@ -41,7 +55,11 @@ const App: React.FC = () => {
     initializeApp();
   }, []);
 
-  return <HomeScreen />;
+  return (
+    <SpeedTestProvider>
+      <AppContent />
+    </SpeedTestProvider>
+  );
 };
 
 export default App;
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * @format
+ */
+
+import { createDataUsageStore } from '../src/services/DataUsageStore';
+import { KeyValueStorage } from '../src/types/SpeedTest';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const createMemoryStorage = (initial: Record<string, string> = {}) => {
+  const data = new Map(Object.entries(initial));
+  const storage: KeyValueStorage = {
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async key => {
+      data.delete(key);
+    },
+  };
+  return { data, storage };
+};
+
+const MARCH = new Date(2026, 2, 10);
+const LATE_MARCH = new Date(2026, 2, 31, 23, 59);
+const APRIL = new Date(2026, 3, 1, 0, 1);
+
+describe('DataUsageStore', () => {
+  it('starts the month empty', async () => {
+    const { storage } = createMemoryStorage();
+
+    await expect(createDataUsageStore(storage).getMonthlyUsage(MARCH)).resolves.toEqual({
+      month: '2026-03',
+      totalBytes: 0,
+      cellularBytes: 0,
+      tests: 0,
+    });
+  });
+
+  it('accumulates every test of the month', async () => {
+    const { storage } = createMemoryStorage();
+    const store = createDataUsageStore(storage);
+
+    await store.recordUsage(1000, 'wifi', MARCH);
+    await store.recordUsage(500, 'wifi', LATE_MARCH);
+
+    await expect(store.getMonthlyUsage(LATE_MARCH)).resolves.toMatchObject({
+      totalBytes: 1500,
+      tests: 2,
+    });
+  });
+
+  it('counts only mobile data as cellular', async () => {
+    const { storage } = createMemoryStorage();
+    const store = createDataUsageStore(storage);
+
+    await store.recordUsage(1000, 'wifi', MARCH);
+    await store.recordUsage(300, 'cellular', MARCH);
+    await store.recordUsage(200, 'unknown', MARCH);
+
+    await expect(store.getMonthlyUsage(MARCH)).resolves.toMatchObject({
+      totalBytes: 1500,
+      cellularBytes: 300,
+      tests: 3,
+    });
+  });
+
+  it('starts over when the month changes', async () => {
+    const { storage } = createMemoryStorage();
+    const store = createDataUsageStore(storage);
+
+    await store.recordUsage(1000, 'cellular', LATE_MARCH);
+    await expect(store.getMonthlyUsage(APRIL)).resolves.toMatchObject({
+      month: '2026-04',
+      totalBytes: 0,
+    });
+
+    await expect(store.recordUsage(200, 'cellular', APRIL)).resolves.toEqual({
+      month: '2026-04',
+      totalBytes: 200,
+      cellularBytes: 200,
+      tests: 1,
+    });
+  });
+
+  it('treats corrupt data as an empty month', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { storage } = createMemoryStorage({
+      speedtest_data_usage: '{not json',
+    });
+
+    await expect(
+      createDataUsageStore(storage).recordUsage(100, 'wifi', MARCH),
+    ).resolves.toMatchObject({
+      totalBytes: 100,
+      tests: 1,
+    });
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import { describeError } from '../src/config/errorMessages';
+import {
+  classifyError,
+  createSpeedTestError,
+  errorFromHttpStatus,
+  isRetryableError,
+} from '../src/utils/errors';
+
+describe('classifyError', () => {
+  test('recognizes platform DNS and TLS messages', () => {
+    expect(classifyError(new Error('Unable to resolve host "speed.example"')).type).toBe(
+      'dns-failure',
+    );
+    expect(classifyError(new Error('SSLHandshakeException: handshake failed')).type).toBe(
+      'tls-error',
+    );
+    expect(classifyError(new Error('Network request failed')).type).toBe('server-unreachable');
+    expect(classifyError('boom').type).toBe('unknown-error');
+  });
+
+  test('treats a handshake that timed out as a retryable timeout', () => {
+    const error = classifyError(new Error('SSL handshake timed out'));
+    expect(error.type).toBe('timeout');
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  test('keeps errors that are already classified', () => {
+    const error = createSpeedTestError('offline', 'lost');
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe('errorFromHttpStatus', () => {
+  test('maps overload and captive portal statuses', () => {
+    expect(errorFromHttpStatus(503, 'u').type).toBe('server-overload');
+    expect(errorFromHttpStatus(429, 'u').type).toBe('server-overload');
+    expect(errorFromHttpStatus(511, 'u').type).toBe('captive-portal');
+    expect(errorFromHttpStatus(404, 'u').details?.status).toBe(404);
+  });
+
+  test('only retries server-side HTTP failures', () => {
+    expect(isRetryableError(errorFromHttpStatus(500, 'u'))).toBe(true);
+    expect(isRetryableError(errorFromHttpStatus(404, 'u'))).toBe(false);
+    expect(isRetryableError(createSpeedTestError('cancelled', 'stop'))).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  test('has a localized explanation for every locale', () => {
+    expect(describeError('dns-failure', 'en').title).toBe('Name lookup failed');
+    expect(describeError('dns-failure', 'es').title).toBe('Error de DNS');
+  });
+});
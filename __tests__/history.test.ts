@@ -0,0 +1,130 @@
+/**
+ * @format
+ */
+
+import {
+  collectFilterOptions,
+  filterHistory,
+  needsFullHistory,
+  sortHistory,
+  summarizeHistory,
+  toHistoryQuery,
+} from '../src/utils/history';
+import { SpeedTestResult } from '../src/types/SpeedTest';
+
+const makeResult = (id: string, overrides: Partial<SpeedTestResult> = {}): SpeedTestResult => ({
+  id,
+  timestamp: new Date('2025-03-01T12:00:00Z'),
+  downloadSpeed: 100,
+  uploadSpeed: 20,
+  ping: 15,
+  jitter: 2,
+  packetLoss: 0,
+  serverInfo: { id: 'mad', name: 'Madrid', location: 'Madrid, ES', distance: 5, ping: 15 },
+  deviceInfo: { platform: 'ios', model: 'iPhone', osVersion: '18', appVersion: '1.0.0' },
+  networkInfo: { type: 'wifi', isConnected: true, isInternetReachable: true },
+  ...overrides,
+});
+
+const cellular = (carrier: string) => ({
+  type: 'cellular' as const,
+  isConnected: true,
+  isInternetReachable: true,
+  carrier,
+});
+
+describe('filterHistory', () => {
+  const results = [
+    makeResult('a'),
+    makeResult('b', { networkInfo: cellular('Movistar') }),
+    makeResult('c', {
+      timestamp: new Date('2025-01-15T12:00:00Z'),
+      serverInfo: { id: 'par', name: 'Paris', location: 'Paris, FR', distance: 1000, ping: 30 },
+    }),
+  ];
+
+  test('combines criteria and ignores missing ones', () => {
+    expect(filterHistory(results, {}).map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(filterHistory(results, { networkType: 'wifi', serverId: 'mad' }).map(r => r.id)).toEqual(['a']);
+    expect(filterHistory(results, { carrier: 'Movistar' }).map(r => r.id)).toEqual(['b']);
+    expect(
+      filterHistory(results, { from: new Date('2025-02-01T00:00:00Z') }).map(r => r.id),
+    ).toEqual(['a', 'b']);
+  });
+
+  test('maps onto a repository query with the same matches', () => {
+    const from = new Date('2025-02-01T00:00:00Z');
+    const query = toHistoryQuery({ networkType: 'cellular', carrier: 'Movistar', from });
+
+    expect(query).toMatchObject({ networkType: 'cellular', from });
+    expect(results.filter(query.filter!).map(r => r.id)).toEqual(['b']);
+    expect(toHistoryQuery({ networkType: 'wifi' }).filter).toBeUndefined();
+  });
+
+  test('collects distinct servers and carriers', () => {
+    expect(collectFilterOptions(results)).toEqual({
+      servers: [
+        { id: 'mad', name: 'Madrid' },
+        { id: 'par', name: 'Paris' },
+      ],
+      carriers: ['Movistar'],
+    });
+  });
+});
+
+describe('sortHistory', () => {
+  const pingOnly = { id: 'quick', name: 'Quick', phases: [{ phase: 'ping' as const }] };
+  const results = [
+    makeResult('slow', { downloadSpeed: 10, ping: 40 }),
+    makeResult('quick', { downloadSpeed: 0, ping: 5, testPlan: pingOnly }),
+    makeResult('fast', { downloadSpeed: 500, ping: 20 }),
+  ];
+
+  test('sorts by a metric in either direction', () => {
+    expect(sortHistory(results, { key: 'ping', direction: 'asc' }).map(r => r.id)).toEqual([
+      'quick',
+      'fast',
+      'slow',
+    ]);
+    expect(sortHistory(results, { key: 'download', direction: 'desc' })[0].id).toBe('fast');
+  });
+
+  test('keeps results without the metric last', () => {
+    expect(sortHistory(results, { key: 'download', direction: 'asc' }).map(r => r.id)).toEqual([
+      'slow',
+      'fast',
+      'quick',
+    ]);
+  });
+});
+
+describe('needsFullHistory', () => {
+  test('pages only when newest first', () => {
+    expect(needsFullHistory({ key: 'date', direction: 'desc' })).toBe(false);
+    expect(needsFullHistory({ key: 'date', direction: 'asc' })).toBe(true);
+    expect(needsFullHistory({ key: 'download', direction: 'desc' })).toBe(true);
+  });
+});
+
+describe('summarizeHistory', () => {
+  test('averages each metric over the tests that measured it', () => {
+    const pingOnly = { id: 'quick', name: 'Quick', phases: [{ phase: 'ping' as const }] };
+    const results = [
+      makeResult('new', { timestamp: new Date('2025-03-02T12:00:00Z'), downloadSpeed: 300 }),
+      makeResult('quick', { downloadSpeed: 0, uploadSpeed: 0, ping: 30, testPlan: pingOnly }),
+      makeResult('old'),
+    ];
+
+    expect(summarizeHistory(results)).toEqual({
+      averageDownload: 200,
+      averageUpload: 20,
+      averagePing: 20,
+      totalTests: 3,
+      lastTestDate: new Date('2025-03-02T12:00:00Z'),
+    });
+  });
+
+  test('is empty without results', () => {
+    expect(summarizeHistory([])).toMatchObject({ totalTests: 0, lastTestDate: null });
+  });
+});
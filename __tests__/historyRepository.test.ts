@@ -0,0 +1,173 @@
+/**
+ * @format
+ */
+
+import {
+  createHistoryRepository,
+  HISTORY_SCHEMA_VERSION,
+  HistoryRepositoryOptions,
+} from '../src/services/HistoryRepository';
+import { KeyValueStorage, SpeedTestResult } from '../src/types/SpeedTest';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const createMemoryStorage = (initial: Record<string, string> = {}) => {
+  const data = new Map(Object.entries(initial));
+  const storage: KeyValueStorage = {
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async key => {
+      data.delete(key);
+    },
+  };
+  return { data, storage };
+};
+
+// Reloj fijo: la retención por antigüedad no debe depender de la fecha real
+const NOW = new Date('2024-05-10T00:00:00Z').getTime();
+
+const createRepository = (options: HistoryRepositoryOptions) =>
+  createHistoryRepository({ now: () => NOW, ...options });
+
+const makeResult = (id: string, overrides: Partial<SpeedTestResult> = {}): SpeedTestResult => ({
+  id,
+  timestamp: new Date('2024-05-01T10:00:00Z'),
+  downloadSpeed: 100,
+  uploadSpeed: 20,
+  ping: 15,
+  jitter: 2,
+  packetLoss: 0,
+  serverInfo: { id: 's', name: 'Server', location: 'Madrid', distance: 0, ping: 15 },
+  deviceInfo: { platform: 'android', model: 'test', osVersion: '14', appVersion: '1.0.0' },
+  networkInfo: { type: 'wifi', isConnected: true, isInternetReachable: true },
+  unitSystem: 'si',
+  ...overrides,
+});
+
+describe('HistoryRepository', () => {
+  test('appends newest first and revives timestamps', async () => {
+    const { storage } = createMemoryStorage();
+    const repository = createRepository({ storage });
+
+    await repository.append(makeResult('a'));
+    await repository.append(makeResult('b'));
+    const history = await repository.query();
+
+    expect(history.map(result => result.id)).toEqual(['b', 'a']);
+    expect(history[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  test('keeps concurrent appends across pages and trims to maxItems', async () => {
+    const { data, storage } = createMemoryStorage();
+    const repository = createRepository({
+      storage,
+      resultsPerPage: 2,
+      retention: { maxItems: 3 },
+    });
+
+    await Promise.all(['a', 'b', 'c', 'd'].map(id => repository.append(makeResult(id))));
+
+    expect((await repository.query()).map(result => result.id)).toEqual(['d', 'c', 'b']);
+    expect(await repository.count()).toBe(3);
+    // Índice más dos páginas: las sustituidas se borran
+    expect(data.size).toBe(3);
+  });
+
+  test('pages through results and queries by date and network type', async () => {
+    const { storage } = createMemoryStorage();
+    const repository = createRepository({ storage, resultsPerPage: 2 });
+    const days = ['01', '02', '03', '04', '05'];
+    for (const day of days) {
+      await repository.append(
+        makeResult(day, {
+          timestamp: new Date(`2024-05-${day}T10:00:00Z`),
+          networkInfo: {
+            type: day === '02' || day === '04' ? 'cellular' : 'wifi',
+            isConnected: true,
+            isInternetReachable: true,
+          },
+        }),
+      );
+    }
+
+    const secondPage = await repository.query({ offset: 2, limit: 2 });
+    expect(secondPage.map(result => result.id)).toEqual(['03', '02']);
+
+    const range = await repository.query({
+      from: new Date('2024-05-02T00:00:00Z'),
+      to: new Date('2024-05-04T23:59:59Z'),
+    });
+    expect(range.map(result => result.id)).toEqual(['04', '03', '02']);
+
+    const cellular = await repository.query({ networkType: 'cellular' });
+    expect(cellular.map(result => result.id)).toEqual(['04', '02']);
+  });
+
+  test('drops results older than maxAgeDays', async () => {
+    const { storage } = createMemoryStorage();
+    const repository = createRepository({ storage, resultsPerPage: 2 });
+    for (const day of ['01', '05', '08', '09']) {
+      await repository.append(makeResult(day, { timestamp: new Date(`2024-05-${day}T00:00:00Z`) }));
+    }
+
+    await repository.setRetention({ maxAgeDays: 3 });
+
+    expect((await repository.query()).map(result => result.id)).toEqual(['09', '08']);
+  });
+
+  test('removes a single result and filters queries', async () => {
+    const { storage } = createMemoryStorage();
+    const repository = createRepository({ storage });
+    await repository.append(makeResult('a', { downloadSpeed: 50 }));
+    await repository.append(makeResult('b', { downloadSpeed: 150 }));
+    await repository.append(makeResult('c', { downloadSpeed: 250 }));
+
+    expect(await repository.remove('b')).toBe(true);
+    expect(await repository.remove('missing')).toBe(false);
+    const fast = await repository.query({ filter: result => result.downloadSpeed > 100 });
+    expect(fast.map(result => result.id)).toEqual(['c']);
+    expect(await repository.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  test('migrates the legacy array format and drops invalid entries', async () => {
+    const legacy = { ...makeResult('old'), unitSystem: undefined, downloadSpeed: 100 };
+    const { data, storage } = createMemoryStorage({
+      speedtest_history: JSON.stringify([legacy, { id: 'broken' }]),
+    });
+    const repository = createRepository({ storage });
+
+    const history = await repository.query();
+    expect(history).toHaveLength(1);
+    expect(history[0].unitSystem).toBe('si');
+    expect(history[0].downloadSpeed).toBeCloseTo(104.86);
+
+    await repository.append(makeResult('new'));
+    const stored = JSON.parse(data.get('speedtest_history') ?? '{}');
+    expect(stored.version).toBe(HISTORY_SCHEMA_VERSION);
+    expect(await repository.count()).toBe(2);
+  });
+
+  test('splits a single-document v2 history into pages', async () => {
+    const results = ['a', 'b', 'c'].map(id => makeResult(id));
+    const { storage } = createMemoryStorage({
+      speedtest_history: JSON.stringify({ version: 2, results }),
+    });
+    const repository = createRepository({ storage, resultsPerPage: 2 });
+
+    expect((await repository.query()).map(result => result.id)).toEqual(['a', 'b', 'c']);
+    expect(await repository.count()).toBe(3);
+  });
+
+  test('refuses to overwrite history from a newer schema', async () => {
+    const newer = JSON.stringify({ version: HISTORY_SCHEMA_VERSION + 1, results: [] });
+    const { data, storage } = createMemoryStorage({ speedtest_history: newer });
+    const repository = createRepository({ storage });
+
+    await expect(repository.append(makeResult('a'))).rejects.toThrow('newer');
+    expect(data.get('speedtest_history')).toBe(newer);
+  });
+});
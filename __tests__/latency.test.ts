@@ -0,0 +1,37 @@
+/**
+ * @format
+ */
+
+import {
+  computeLatencyStats,
+  gradeBufferbloat,
+  rfc3550Jitter,
+} from '../src/utils/latency';
+
+describe('latency statistics', () => {
+  test('summarizes RTT samples and request failures', () => {
+    const stats = computeLatencyStats([20, 22, 18, 40, 20], 8);
+
+    expect(stats.min).toBe(18);
+    expect(stats.median).toBe(20);
+    expect(stats.max).toBe(40);
+    expect(stats.mean).toBe(24);
+    expect(stats.received).toBe(5);
+    expect(stats.lossRate).toBe(37.5);
+  });
+
+  test('smooths jitter with the RFC 3550 1/16 gain', () => {
+    expect(rfc3550Jitter([10, 10, 10])).toBe(0);
+    expect(rfc3550Jitter([10, 26])).toBe(1);
+    expect(rfc3550Jitter([10, 26, 10])).toBeCloseTo(1 + 15 / 16);
+  });
+});
+
+describe('gradeBufferbloat', () => {
+  test('grades the worst loaded direction against idle latency', () => {
+    expect(gradeBufferbloat({ idle: 20, download: 35, upload: 30 })).toBe('A');
+    expect(gradeBufferbloat({ idle: 20, download: 30, upload: 150 })).toBe('C');
+    expect(gradeBufferbloat({ idle: 20, download: 900, upload: null })).toBe('F');
+    expect(gradeBufferbloat({ idle: 20, download: null, upload: null })).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import { createNetworkPreflight } from '../src/services/NetworkPreflight';
+
+const CHECK_URL = 'http://check.example/hotspot.html';
+const EXPECTED_BODY = 'Success';
+
+interface FakeResponse {
+  status?: number;
+  url?: string;
+  body?: string;
+  headers?: string[];
+}
+
+const respond = ({
+  status = 200,
+  url = CHECK_URL,
+  body = EXPECTED_BODY,
+  headers = [],
+}: FakeResponse) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  url,
+  headers: { has: (name: string) => headers.includes(name) },
+  text: async () => body,
+});
+
+const originalFetch = globalThis.fetch;
+
+const mockFetch = (handler: (init: RequestInit) => Promise<unknown> | unknown) => {
+  globalThis.fetch = jest.fn(async (_url: string, init: RequestInit) =>
+    handler(init),
+  ) as unknown as typeof fetch;
+};
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const runPreflight = () =>
+  createNetworkPreflight({
+    checkUrl: CHECK_URL,
+    expectedBody: EXPECTED_BODY,
+    timeoutMs: 50,
+  }).run();
+
+describe('NetworkPreflight', () => {
+  it('passes when the page arrives untouched', async () => {
+    mockFetch(() => respond({}));
+
+    expect(await runPreflight()).toEqual({ status: 'ok', proxyHeaders: [] });
+  });
+
+  it('detects a portal that redirects to its login', async () => {
+    mockFetch(() => respond({ url: 'http://portal.example/login', body: '<form></form>' }));
+
+    expect(await runPreflight()).toMatchObject({
+      status: 'captive-portal',
+      redirectedTo: 'http://portal.example/login',
+    });
+  });
+
+  it('detects a portal that replaces the page', async () => {
+    mockFetch(() => respond({ body: '<html>Sign in to continue</html>' }));
+
+    expect((await runPreflight()).status).toBe('captive-portal');
+  });
+
+  it('reports the headers of a transparent proxy', async () => {
+    mockFetch(() => respond({ headers: ['x-squid-error', 'x-cache-lookup'] }));
+
+    expect(await runPreflight()).toEqual({
+      status: 'ok',
+      proxyHeaders: ['x-squid-error', 'x-cache-lookup'],
+    });
+  });
+
+  it('is inconclusive when the check times out', async () => {
+    mockFetch(
+      init =>
+        new Promise((_, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+        }),
+    );
+
+    expect(await runPreflight()).toEqual({
+      status: 'inconclusive',
+      proxyHeaders: [],
+    });
+  });
+
+  it('is inconclusive on a server error, but not on 511', async () => {
+    mockFetch(() => respond({ status: 503, body: 'Service Unavailable' }));
+    expect((await runPreflight()).status).toBe('inconclusive');
+
+    mockFetch(() => respond({ status: 511, body: 'Network Authentication Required' }));
+    expect((await runPreflight()).status).toBe('captive-portal');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_ADAPTIVE_DURATION,
+  DEFAULT_TEST_PLAN,
+  SPEED_TEST_CONSTANTS,
+} from '../src/types/SpeedTest';
+import {
+  completePhase,
+  computeProgress,
+  planPhases,
+  resolvePhaseDuration,
+} from '../src/utils/progress';
+
+const FIXED = { ...DEFAULT_ADAPTIVE_DURATION, enabled: false };
+const MIN_MS = SPEED_TEST_CONSTANTS.MIN_TEST_DURATION * 1000;
+const MAX_MS = SPEED_TEST_CONSTANTS.MAX_TEST_DURATION * 1000;
+
+describe('progress plan', () => {
+  const plan = planPhases({
+    plan: DEFAULT_TEST_PLAN,
+    testDuration: 10,
+    pingSamples: 10,
+    adaptiveDuration: FIXED,
+  });
+
+  test('sizes each phase from the configuration', () => {
+    expect(plan.map(p => p.phase)).toEqual(['connecting', 'ping', 'download', 'upload']);
+    expect(plan[2].plannedMs).toBe(10000);
+  });
+
+  test('derives progress and remaining time from elapsed phase time', () => {
+    const total = plan.reduce((sum, p) => sum + p.plannedMs, 0);
+    const beforeDownload = plan[0].plannedMs + plan[1].plannedMs;
+    const snapshot = computeProgress(plan, 'download', 5000);
+
+    expect(snapshot.progress).toBeCloseTo(((beforeDownload + 5000) / total) * 100);
+    expect(snapshot.estimatedTimeRemaining).toBe(15);
+  });
+
+  test('caps an overrunning phase at the start of the next one', () => {
+    const overrun = computeProgress(plan, 'download', 60000);
+    const next = computeProgress(plan, 'upload', 0);
+
+    expect(overrun.progress).toBeCloseTo(next.progress);
+  });
+
+  test('follows a customized set of phases', () => {
+    const downloadOnly = planPhases({
+      plan: {
+        id: 'custom',
+        name: 'Custom',
+        phases: [{ phase: 'download', durationSeconds: 20 }],
+      },
+      testDuration: 10,
+      pingSamples: 10,
+      adaptiveDuration: DEFAULT_ADAPTIVE_DURATION,
+    });
+
+    expect(computeProgress(downloadOnly, 'download', 0).estimatedTimeRemaining).toBe(20);
+  });
+});
+
+describe('adaptive phases', () => {
+  const plan = planPhases({
+    plan: { id: 'down', name: 'Download', phases: [{ phase: 'download' }] },
+    testDuration: 10,
+    pingSamples: 10,
+    adaptiveDuration: DEFAULT_ADAPTIVE_DURATION,
+  });
+  const connectingMs = plan[0].plannedMs;
+
+  test('use the same bounds as the transfer itself', () => {
+    expect(
+      resolvePhaseDuration({}, { testDuration: 10, adaptiveDuration: DEFAULT_ADAPTIVE_DURATION }),
+    ).toEqual({
+      minMs: MIN_MS,
+      maxMs: MAX_MS,
+      adaptive: true,
+    });
+    expect(resolvePhaseDuration({}, { testDuration: 10, adaptiveDuration: FIXED })).toEqual({
+      minMs: 10000,
+      maxMs: 10000,
+      adaptive: false,
+    });
+    expect(plan[1]).toMatchObject({ plannedMs: MIN_MS, maxMs: MAX_MS });
+  });
+
+  test('are estimated at their shortest, ignoring testDuration', () => {
+    expect(computeProgress(plan, 'connecting', 0).estimatedTimeRemaining).toBe(
+      Math.ceil((connectingMs + MIN_MS) / 1000),
+    );
+  });
+
+  test('keep a stability window ahead while the speed has not settled', () => {
+    const unsettled = computeProgress(plan, 'download', 20000);
+    const atMax = computeProgress(plan, 'download', MAX_MS + 5000);
+
+    expect(unsettled.estimatedTimeRemaining).toBe(DEFAULT_ADAPTIVE_DURATION.windowMs / 1000);
+    expect(unsettled.progress).toBeLessThan(100);
+    expect(atMax.estimatedTimeRemaining).toBe(0);
+  });
+
+  test('record their real length so the next phase does not move back', () => {
+    const twoPhases = planPhases({
+      plan: {
+        id: 'both',
+        name: 'Both',
+        phases: [{ phase: 'download' }, { phase: 'upload' }],
+      },
+      testDuration: 10,
+      pingSamples: 10,
+      adaptiveDuration: DEFAULT_ADAPTIVE_DURATION,
+    });
+    const endOfDownload = computeProgress(twoPhases, 'download', 30000);
+    const startOfUpload = computeProgress(completePhase(twoPhases, 'download', 30000), 'upload', 0);
+
+    const withoutRecord = computeProgress(twoPhases, 'upload', 0);
+
+    expect(withoutRecord.progress).toBeLessThan(endOfDownload.progress);
+    expect(startOfUpload.progress).toBeGreaterThanOrEqual(endOfDownload.progress);
+  });
+});
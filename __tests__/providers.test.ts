@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import { createSpeedTestProvider } from '../src/services/providers';
+import { appendQuery, replacePathSegment } from '../src/services/providers/SpeedTestProvider';
+
+const endpoints = (base: string) => ({
+  downloadUrl: `${base}/download`,
+  uploadUrl: `${base}/upload`,
+  pingUrl: `${base}/ping`,
+});
+
+const queryParam = (url: string, name: string): string | undefined =>
+  new RegExp(`[?&]${name}=([^&]*)`).exec(url)?.[1];
+
+describe('provider URL helpers', () => {
+  test('appendQuery respects an existing query string', () => {
+    expect(appendQuery('https://a.example/x', { bytes: 10 })).toBe('https://a.example/x?bytes=10');
+    expect(appendQuery('https://a.example/x?k=1', { r: 'a b' })).toBe(
+      'https://a.example/x?k=1&r=a%20b',
+    );
+  });
+
+  test('replacePathSegment swaps the last path segment and drops the query', () => {
+    expect(replacePathSegment('https://a.example/dir/garbage.php?ckSize=4', 'getIP.php')).toBe(
+      'https://a.example/dir/getIP.php',
+    );
+  });
+});
+
+describe('CloudflareProvider', () => {
+  const provider = createSpeedTestProvider('cloudflare', {
+    downloadUrl: 'https://speed.cloudflare.com/__down',
+    uploadUrl: 'https://speed.cloudflare.com/__up',
+    pingUrl: 'https://1.1.1.1',
+  });
+
+  test('asks for the requested number of bytes', () => {
+    expect(provider.downloadRequest(1000).url).toBe('https://speed.cloudflare.com/__down?bytes=1000');
+  });
+
+  test('posts the payload and pings with HEAD', () => {
+    const payload = new Uint8Array(8);
+    const upload = provider.uploadRequest(payload);
+
+    expect(upload.url).toBe('https://speed.cloudflare.com/__up');
+    expect(upload.init.method).toBe('POST');
+    expect(upload.init.body).toBe(payload);
+    expect(provider.pingRequest().init.method).toBe('HEAD');
+  });
+
+  test('reads the client IP from the trace endpoint', () => {
+    expect(provider.clientIpRequest()?.url).toBe('https://speed.cloudflare.com/cdn-cgi/trace');
+    expect(provider.parseClientIp('fl=1\nip=203.0.113.7\nts=1')).toBe('203.0.113.7');
+    expect(provider.parseClientIp('fl=1')).toBeNull();
+  });
+});
+
+describe('LibreSpeedProvider', () => {
+  const provider = createSpeedTestProvider('librespeed', {
+    downloadUrl: 'https://ls.example/backend/garbage.php',
+    uploadUrl: 'https://ls.example/backend/empty.php',
+    pingUrl: 'https://ls.example/backend/empty.php',
+  });
+
+  test('converts bytes into 1 MiB chunks within the backend limit', () => {
+    expect(queryParam(provider.downloadRequest(1).url, 'ckSize')).toBe('1');
+    expect(queryParam(provider.downloadRequest(25 * 1024 * 1024).url, 'ckSize')).toBe('25');
+    expect(queryParam(provider.downloadRequest(4 * 1024 ** 3).url, 'ckSize')).toBe('1024');
+  });
+
+  test('adds a cache buster to every request', () => {
+    [provider.downloadRequest(1), provider.uploadRequest(new Uint8Array(1)), provider.pingRequest()]
+      .map(request => request.url)
+      .forEach(url => expect(queryParam(url, 'r')).toBeTruthy());
+  });
+
+  test('reads the client IP from getIP.php in either format', () => {
+    expect(provider.clientIpRequest()?.url).toMatch(/^https:\/\/ls\.example\/backend\/getIP\.php\?r=/);
+    expect(provider.parseClientIp('{"processedString":"203.0.113.7 - Example ISP"}')).toBe(
+      '203.0.113.7',
+    );
+    expect(provider.parseClientIp('203.0.113.7\n')).toBe('203.0.113.7');
+  });
+});
+
+describe('HttpFileProvider', () => {
+  const provider = createSpeedTestProvider('http-file', endpoints('https://files.example'));
+
+  test('downloads the whole file whatever the requested size', () => {
+    const url = provider.downloadRequest(1000).url;
+
+    expect(url.startsWith('https://files.example/download?r=')).toBe(true);
+    expect(queryParam(url, 'bytes')).toBeUndefined();
+  });
+
+  test('has no client IP endpoint', () => {
+    expect(provider.clientIpRequest()).toBeNull();
+  });
+});
+
+describe('createSpeedTestProvider', () => {
+  test('builds the provider for each backend type', () => {
+    expect(createSpeedTestProvider('cloudflare', endpoints('https://a')).type).toBe('cloudflare');
+    expect(createSpeedTestProvider('librespeed', endpoints('https://a')).type).toBe('librespeed');
+    expect(createSpeedTestProvider('http-file', endpoints('https://a')).type).toBe('http-file');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * @format
+ */
+
+import { computeBackoffDelay, withRetry } from '../src/utils/retry';
+
+const POLICY = { retries: 2, baseDelayMs: 100, maxDelayMs: 300 };
+const NO_WAIT = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe('computeBackoffDelay', () => {
+  test('doubles per attempt and keeps half of the delay fixed', () => {
+    expect(computeBackoffDelay(1, POLICY, () => 0)).toBe(50);
+    expect(computeBackoffDelay(1, POLICY, () => 1)).toBe(100);
+    expect(computeBackoffDelay(2, POLICY, () => 1)).toBe(200);
+  });
+
+  test('never exceeds maxDelayMs', () => {
+    expect(computeBackoffDelay(10, POLICY, () => 1)).toBe(300);
+  });
+});
+
+describe('withRetry', () => {
+  test('retries until the operation succeeds', async () => {
+    const operation = jest
+      .fn<Promise<string>, [number]>()
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockResolvedValueOnce('ok');
+    const failed: number[] = [];
+
+    const result = await withRetry(operation, NO_WAIT, {
+      onFailedAttempt: (_error, attempt) => failed.push(attempt),
+    });
+
+    expect(result).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(failed).toEqual([1]);
+  });
+
+  test('rethrows the last error after 1 + retries attempts', async () => {
+    const operation = jest.fn<Promise<void>, [number]>(async attempt => {
+      throw new Error(`attempt ${attempt}`);
+    });
+    const delays: number[] = [];
+
+    await expect(
+      withRetry(operation, NO_WAIT, {
+        onFailedAttempt: (_error, _attempt, delayMs) => delays.push(delayMs),
+      }),
+    ).rejects.toThrow('attempt 3');
+    expect(delays).toHaveLength(3);
+  });
+
+  test('stops at the first non-retryable error', async () => {
+    const operation = jest.fn<Promise<void>, [number]>().mockRejectedValue(new Error('fatal'));
+
+    await expect(withRetry(operation, NO_WAIT, { isRetryable: () => false })).rejects.toThrow(
+      'fatal',
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
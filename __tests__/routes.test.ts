@@ -0,0 +1,36 @@
+/**
+ * @format
+ */
+
+import { parseDeepLink } from '../src/navigation/routes';
+
+describe('parseDeepLink', () => {
+  test('opens a test with a known plan', () => {
+    expect(parseDeepLink('speedtest://test?plan=quick&start=true')).toEqual({
+      name: 'test',
+      planId: 'quick',
+      autoStart: true,
+    });
+    expect(parseDeepLink('speedtest://test?plan=unknown')).toEqual({
+      name: 'test',
+      planId: undefined,
+      autoStart: false,
+    });
+  });
+
+  test('opens a result and the other tabs', () => {
+    expect(parseDeepLink('speedtest://result/test_123%2Fa')).toEqual({
+      name: 'result',
+      resultId: 'test_123/a',
+    });
+    expect(parseDeepLink('speedtest://history')).toEqual({ name: 'history' });
+    expect(parseDeepLink('speedtest://settings/')).toEqual({ name: 'settings' });
+  });
+
+  test('ignores foreign, unknown and malformed links', () => {
+    expect(parseDeepLink('https://example.com/test')).toBeNull();
+    expect(parseDeepLink('speedtest://nowhere')).toBeNull();
+    expect(parseDeepLink('speedtest://result')).toBeNull();
+    expect(parseDeepLink('speedtest://result/%E0%A4%A')).toBeNull();
+  });
+});
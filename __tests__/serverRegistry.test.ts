@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import { createServerRegistry } from '../src/services/ServerRegistry';
+
+const LIST_URL = 'https://servers.example/list.json';
+const LOCATION_URL = 'https://servers.example/meta';
+
+const SERVER = {
+  id: 'madrid',
+  name: 'Madrid',
+  location: 'Madrid, ES',
+  latitude: 40.4168,
+  longitude: -3.7038,
+  downloadUrl: 'https://madrid.example/__down',
+  uploadUrl: 'https://madrid.example/__up',
+  pingUrl: 'https://madrid.example/ping',
+};
+
+const respondJson = (data: unknown) => ({
+  ok: true,
+  status: 200,
+  json: async () => data,
+});
+
+// Petición que solo termina cuando se aborta
+const stalled = (init: RequestInit = {}) =>
+  new Promise((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+  });
+
+type Route = (init: RequestInit) => Promise<unknown> | unknown;
+
+const originalFetch = globalThis.fetch;
+let listRoute: Route;
+let locationRoute: Route;
+
+beforeEach(() => {
+  listRoute = () => respondJson([SERVER]);
+  locationRoute = () => respondJson({ latitude: 41.3874, longitude: 2.1686 }); // Barcelona
+  globalThis.fetch = jest.fn(async (url: string, init: RequestInit = {}) => {
+    if (url === LIST_URL) return listRoute(init);
+    if (url === LOCATION_URL) return locationRoute(init);
+    return { ok: true, status: 200 }; // pings
+  }) as unknown as typeof fetch;
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const createRegistry = () =>
+  createServerRegistry({
+    serverListUrl: LIST_URL,
+    locationUrl: LOCATION_URL,
+    requestTimeoutMs: 50,
+  });
+
+describe('ServerRegistry', () => {
+  it('ranks by distance when every lookup answers', async () => {
+    const [candidate] = await createRegistry().rankServers();
+
+    expect(candidate.id).toBe('madrid');
+    expect(candidate.reachable).toBe(true);
+    expect(candidate.distance).toBeGreaterThan(400);
+  });
+
+  it('falls back to the bundled list and no distance when lookups stall', async () => {
+    listRoute = stalled;
+    locationRoute = stalled;
+
+    const ranked = await createRegistry().rankServers();
+
+    expect(ranked.length).toBeGreaterThan(0);
+    expect(ranked.map(candidate => candidate.id)).not.toContain('madrid');
+    ranked.forEach(candidate => expect(candidate.distance).toBe(0));
+  });
+
+  it('retries the location after a failed lookup', async () => {
+    const registry = createRegistry();
+    locationRoute = () => {
+      throw new Error('Network request failed');
+    };
+    const [withoutLocation] = await registry.rankServers();
+
+    locationRoute = () => respondJson({ latitude: 41.3874, longitude: 2.1686 });
+    const [withLocation] = await registry.rankServers();
+
+    expect(withoutLocation.distance).toBe(0);
+    expect(withLocation.distance).toBeGreaterThan(400);
+  });
+
+  it('does not remember anything from a cancelled discovery', async () => {
+    const registry = createRegistry();
+    const controller = new AbortController();
+    listRoute = stalled;
+    locationRoute = stalled;
+
+    const cancelled = registry.rankServers(controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow();
+
+    listRoute = () => respondJson([SERVER]);
+    locationRoute = () => respondJson({ latitude: 41.3874, longitude: 2.1686 });
+    const [candidate] = await registry.rankServers();
+
+    expect(candidate.id).toBe('madrid');
+    expect(candidate.distance).toBeGreaterThan(400);
+  });
+});
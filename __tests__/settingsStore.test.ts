@@ -0,0 +1,126 @@
+/**
+ * @format
+ */
+
+import { createSettingsStore, toSpeedTestConfig } from '../src/services/SettingsStore';
+import { DEFAULT_TEST_SETTINGS, KeyValueStorage } from '../src/types/SpeedTest';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const createMemoryStorage = (initial: Record<string, string> = {}) => {
+  const data = new Map(Object.entries(initial));
+  const storage: KeyValueStorage = {
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async key => {
+      data.delete(key);
+    },
+  };
+  return { data, storage };
+};
+
+describe('SettingsStore', () => {
+  it('returns the defaults when nothing is stored', async () => {
+    const { storage } = createMemoryStorage();
+    await expect(createSettingsStore(storage).load()).resolves.toEqual(DEFAULT_TEST_SETTINGS);
+  });
+
+  it('round-trips valid settings', async () => {
+    const { storage } = createMemoryStorage();
+    const store = createSettingsStore(storage);
+    const settings = {
+      autoStartOnLaunch: true,
+      saveHistory: false,
+      preferredServer: 'eu-west',
+      testIntervalMinutes: 30,
+      historyRetentionDays: 90,
+      historyMaxItems: 1000,
+      advanced: {
+        testDuration: 20,
+        maxConcurrentConnections: 8,
+        cellularDataCapBytes: 50 * 1000 * 1000,
+        pingTestUrl: 'https://example.com/ping',
+      },
+    };
+
+    await store.save(settings);
+    await expect(store.load()).resolves.toEqual(settings);
+  });
+
+  it('drops invalid fields and keeps the rest', async () => {
+    const { storage } = createMemoryStorage({
+      speedtest_settings: JSON.stringify({
+        autoStartOnLaunch: 'yes',
+        saveHistory: false,
+        testIntervalMinutes: -5,
+        historyRetentionDays: 0,
+        historyMaxItems: 2.5,
+        advanced: {
+          testDuration: 600,
+          maxConcurrentConnections: 2,
+          timeout: 1.5,
+          cellularDataCapBytes: 10,
+          downloadTestUrl: 'ftp://x',
+        },
+      }),
+    });
+
+    await expect(createSettingsStore(storage).load()).resolves.toEqual({
+      autoStartOnLaunch: false,
+      saveHistory: false,
+      advanced: { maxConcurrentConnections: 2 },
+    });
+  });
+
+  it('falls back to the defaults on corrupt data', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { storage } = createMemoryStorage({ speedtest_settings: '{not json' });
+
+    await expect(createSettingsStore(storage).load()).resolves.toEqual(DEFAULT_TEST_SETTINGS);
+    warn.mockRestore();
+  });
+});
+
+describe('toSpeedTestConfig', () => {
+  it('maps settings onto config overrides', () => {
+    expect(
+      toSpeedTestConfig({
+        ...DEFAULT_TEST_SETTINGS,
+        saveHistory: false,
+        preferredServer: 'eu-west',
+        advanced: { timeout: 5000 },
+      }),
+    ).toEqual({ timeout: 5000, saveHistory: false, preferredServerId: 'eu-west' });
+  });
+
+  it('passes a chosen test duration on for startTest to fix', () => {
+    expect(toSpeedTestConfig(DEFAULT_TEST_SETTINGS)).not.toHaveProperty('testDuration');
+    expect(
+      toSpeedTestConfig({ ...DEFAULT_TEST_SETTINGS, advanced: { testDuration: 20 } }),
+    ).toMatchObject({ testDuration: 20 });
+  });
+
+  it('applies custom URLs only as a complete set, together with a provider', () => {
+    const urls = {
+      downloadTestUrl: 'https://ls.example/garbage.php',
+      uploadTestUrl: 'https://ls.example/empty.php',
+      pingTestUrl: 'https://ls.example/empty.php',
+    };
+
+    expect(
+      toSpeedTestConfig({
+        ...DEFAULT_TEST_SETTINGS,
+        advanced: { downloadTestUrl: urls.downloadTestUrl, provider: 'librespeed' },
+      }),
+    ).toEqual({ saveHistory: true });
+    expect(toSpeedTestConfig({ ...DEFAULT_TEST_SETTINGS, advanced: urls })).toEqual({
+      ...urls,
+      provider: 'cloudflare',
+      saveHistory: true,
+    });
+  });
+});
@@ -0,0 +1,551 @@
+/**
+ * @format
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { Platform } from 'react-native';
+import { createSpeedTestService } from '../src/services/SpeedTestService';
+import {
+  PhaseSettings,
+  SpeedTestConfig,
+  SPEED_TEST_CONSTANTS,
+  TestPlan,
+} from '../src/types/SpeedTest';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js'),
+);
+
+// ===============================
+// SERVIDOR FALSO
+// ===============================
+
+const CHECK_BODY = '<HTML><HEAD><TITLE>Success</TITLE></HEAD><BODY>Success</BODY></HTML>';
+const CHUNK_BYTES = 64 * 1024;
+const CHUNK_INTERVAL_MS = 20;
+
+interface FakeRequest {
+  url: string;
+  init: RequestInit;
+}
+
+type Handler = (request: FakeRequest) => Promise<unknown> | unknown;
+
+const respond = (url: string, body = '', status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  url,
+  headers: { has: () => false },
+  text: async () => body,
+  json: async () => JSON.parse(body),
+});
+
+// Cuerpo que entrega un bloque cada CHUNK_INTERVAL_MS hasta `totalBytes`
+const streamingResponse = (url: string, totalBytes: number, streams: StreamTracker) => {
+  let delivered = 0;
+  let open = true;
+  const close = () => {
+    if (open) {
+      open = false;
+      streams.active -= 1;
+    }
+  };
+
+  streams.active += 1;
+  streams.peak = Math.max(streams.peak, streams.active);
+
+  const reader = {
+    read: () =>
+      new Promise<{ done: boolean; value?: Uint8Array }>(resolve => {
+        if (!open || delivered >= totalBytes) {
+          close();
+          resolve({ done: true });
+          return;
+        }
+        setTimeout(() => {
+          const size = Math.min(CHUNK_BYTES, totalBytes - delivered);
+          delivered += size;
+          resolve({ done: false, value: new Uint8Array(size) });
+        }, CHUNK_INTERVAL_MS);
+      }),
+    cancel: async () => {
+      if (open) streams.cancelled += 1;
+      close();
+    },
+    releaseLock: () => undefined,
+  };
+
+  return { ...respond(url), body: { getReader: () => reader } };
+};
+
+interface StreamTracker {
+  active: number;
+  peak: number;
+  cancelled: number;
+}
+
+// Cloudflare pide bytes; LibreSpeed, bloques de 1 MiB
+const requestedBytes = (url: string): number => {
+  const bytes = /[?&]bytes=(\d+)/.exec(url)?.[1];
+  const chunks = /[?&]ckSize=(\d+)/.exec(url)?.[1];
+  return bytes ? Number(bytes) : Number(chunks) * 1024 * 1024;
+};
+
+const requests: FakeRequest[] = [];
+const streams: StreamTracker = { active: 0, peak: 0, cancelled: 0 };
+let downloadHandler: Handler;
+let uploadHandler: Handler;
+let pingHandler: Handler;
+
+const defaultDownload: Handler = ({ url }) => streamingResponse(url, requestedBytes(url), streams);
+const defaultUpload: Handler = ({ url }) => respond(url);
+const defaultPing: Handler = ({ url }) => respond(url);
+
+// Petición que solo termina cuando se aborta
+const stalled: Handler = ({ init }) =>
+  new Promise((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+  });
+
+const fakeFetch = async (url: string, init: RequestInit = {}) => {
+  const request = { url, init };
+  requests.push(request);
+
+  if (url.startsWith('http://captive.apple.com')) return respond(url, CHECK_BODY);
+  if (url.endsWith('/meta')) throw new Error('Network request failed');
+  if (url.includes('cdn-cgi/trace')) return respond(url, 'ip=203.0.113.7\n');
+  if (url.includes('__down') || url.includes('garbage.php')) return downloadHandler(request);
+  if (url.includes('__up')) return uploadHandler(request);
+  return pingHandler(request);
+};
+
+// ===============================
+// UTILIDADES
+// ===============================
+
+const originalFetch = globalThis.fetch;
+
+const plan = (...phases: PhaseSettings[]): TestPlan => ({ id: 'test', name: 'Test', phases });
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const waitFor = async (condition: () => boolean) => {
+  while (!condition()) {
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const runTest = (config: Partial<SpeedTestConfig>) =>
+  createSpeedTestService().startTest({ saveHistory: false, retryAttempts: 0, ...config });
+
+beforeAll(() => {
+  // El mock de react-native no define la versión del sistema
+  Object.defineProperty(Platform, 'Version', { value: 34, configurable: true });
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  streams.active = 0;
+  streams.peak = 0;
+  streams.cancelled = 0;
+  downloadHandler = defaultDownload;
+  uploadHandler = defaultUpload;
+  pingHandler = defaultPing;
+  globalThis.fetch = jest.fn(fakeFetch) as unknown as typeof fetch;
+  (NetInfo.fetch as jest.Mock).mockResolvedValue({
+    type: 'wifi',
+    isConnected: true,
+    isInternetReachable: true,
+    details: {},
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// ===============================
+// DESCARGA
+// ===============================
+
+describe('download engine', () => {
+  it('runs one stream per connection and aggregates their bytes', async () => {
+    const result = await runTest({
+      plan: plan({ phase: 'download', durationSeconds: 0.5, connections: 3 }),
+    });
+
+    expect(streams.peak).toBe(3);
+    expect(result.downloadConnections).toHaveLength(3);
+    result.downloadConnections!.forEach(connection => expect(connection.bytes).toBeGreaterThan(0));
+
+    const totalBytes = result.downloadConnections!.reduce((sum, c) => sum + c.bytes, 0);
+    expect(result.bytesDownloaded).toBe(totalBytes);
+    expect(result.downloadSpeed).toBeGreaterThan(0);
+  });
+
+  it('stops every stream once the phase duration is reached', async () => {
+    const result = await runTest({
+      plan: plan({ phase: 'download', durationSeconds: 0.5, connections: 2 }),
+    });
+
+    expect(result.downloadDurationMs).toBeGreaterThanOrEqual(500);
+    expect(result.downloadDurationMs).toBeLessThan(500 + 10 * CHUNK_INTERVAL_MS);
+    expect(streams.active).toBe(0);
+  });
+
+  it('uses a test duration passed to startTest as a fixed duration', async () => {
+    const result = await runTest({
+      plan: plan({ phase: 'download', connections: 1 }),
+      testDuration: 1,
+    });
+
+    expect(result.downloadDurationMs).toBeGreaterThanOrEqual(1000);
+    expect(result.downloadDurationMs).toBeLessThan(1000 + 10 * CHUNK_INTERVAL_MS);
+  });
+
+  it('reopens a stream when the server finishes early', async () => {
+    downloadHandler = ({ url }) => streamingResponse(url, 2 * CHUNK_BYTES, streams);
+
+    const result = await runTest({
+      plan: plan({ phase: 'download', durationSeconds: 0.5, connections: 1 }),
+    });
+
+    expect(result.downloadConnections![0].requests).toBeGreaterThan(1);
+  });
+
+  it('ends the phase early at the byte limit', async () => {
+    const maxBytes = 16 * CHUNK_BYTES;
+    const result = await runTest({
+      plan: plan({ phase: 'download', durationSeconds: 10, connections: 2, maxBytes }),
+    });
+
+    expect(result.downloadDurationMs).toBeLessThan(10000);
+    expect(result.bytesDownloaded).toBeGreaterThanOrEqual(maxBytes);
+    expect(result.bytesDownloaded).toBeLessThanOrEqual(maxBytes + 2 * CHUNK_BYTES);
+  });
+});
+
+// ===============================
+// SUBIDA
+// ===============================
+
+describe('upload engine', () => {
+  const UPLOAD_DELAY_MS = 30;
+  let confirmedBodies: number[];
+  let activeUploads: number;
+  let peakUploads: number;
+
+  const bodyLength = (init: RequestInit) => (init.body as Uint8Array | undefined)?.length ?? 0;
+
+  beforeEach(() => {
+    confirmedBodies = [];
+    activeUploads = 0;
+    peakUploads = 0;
+    uploadHandler = async ({ url, init }) => {
+      const bytes = bodyLength(init);
+      if (bytes === 0) return respond(url); // handshake y calentamiento
+
+      activeUploads += 1;
+      peakUploads = Math.max(peakUploads, activeUploads);
+      await new Promise<void>(resolve => setTimeout(resolve, UPLOAD_DELAY_MS));
+      activeUploads -= 1;
+      confirmedBodies.push(bytes);
+      return respond(url);
+    };
+  });
+
+  it('keeps one request in flight per connection', async () => {
+    const result = await runTest({
+      plan: plan({ phase: 'upload', durationSeconds: 0.5, connections: 3 }),
+    });
+
+    expect(peakUploads).toBe(3);
+    expect(result.uploadConnections).toHaveLength(3);
+    result.uploadConnections!.forEach(connection => {
+      expect(connection.requests).toBeGreaterThan(1);
+      expect(connection.bytes).toBeGreaterThan(0);
+    });
+  });
+
+  it('counts exactly the bytes the server confirmed', async () => {
+    const result = await runTest({
+      plan: plan({ phase: 'upload', durationSeconds: 0.5, connections: 2 }),
+    });
+
+    const confirmed = confirmedBodies.reduce((sum, bytes) => sum + bytes, 0);
+    const perConnection = result.uploadConnections!.reduce((sum, c) => sum + c.bytes, 0);
+    expect(result.bytesUploaded).toBe(confirmed);
+    expect(perConnection).toBe(confirmed);
+    expect(result.uploadSpeed).toBeGreaterThan(0);
+  });
+
+  it('grows the payload while requests finish too quickly', async () => {
+    await runTest({ plan: plan({ phase: 'upload', durationSeconds: 0.5, connections: 1 }) });
+
+    expect(confirmedBodies[0]).toBe(64 * 1024);
+    expect(confirmedBodies[1]).toBe(2 * confirmedBodies[0]);
+  });
+
+  it('never sends more than the mobile data cap, counting uploads in flight', async () => {
+    const cap = 1000 * 1000;
+    let sentBytes = 0;
+    const accept = uploadHandler;
+    uploadHandler = request => {
+      sentBytes += bodyLength(request.init);
+      return accept(request);
+    };
+    (NetInfo.fetch as jest.Mock).mockResolvedValue({
+      type: 'cellular',
+      isConnected: true,
+      isInternetReachable: true,
+      details: {},
+    });
+
+    const result = await runTest({
+      plan: plan({ phase: 'upload', durationSeconds: 2, connections: 4 }),
+      cellularDataCapBytes: cap,
+    });
+
+    expect(sentBytes).toBeLessThanOrEqual(cap);
+    expect(result.bytesUploaded).toBe(sentBytes);
+    expect(result.bytesUploaded).toBeGreaterThan(cap / 2);
+  });
+
+  it('leaves a rejected upload out of the totals', async () => {
+    let uploads = 0;
+    const accept = uploadHandler;
+    uploadHandler = request => {
+      if (bodyLength(request.init) > 0 && ++uploads === 4) {
+        return respond(request.url, '', 500); // esa conexión termina; la otra sigue
+      }
+      return accept(request);
+    };
+
+    const result = await runTest({
+      plan: plan({ phase: 'upload', durationSeconds: 0.5, connections: 2 }),
+    });
+
+    const confirmed = confirmedBodies.reduce((sum, bytes) => sum + bytes, 0);
+    expect(uploads).toBeGreaterThan(confirmedBodies.length);
+    expect(result.bytesUploaded).toBe(confirmed);
+  });
+});
+
+// ===============================
+// SERVIDOR Y PROVEEDOR
+// ===============================
+
+describe('server selection', () => {
+  const downloadOnly = plan({ phase: 'download', durationSeconds: 0.2, connections: 1 });
+
+  it('measures against the discovered server with its provider', async () => {
+    const result = await runTest({ plan: downloadOnly });
+
+    expect(result.serverInfo.id).toBe('cloudflare-1');
+    expect(requests.some(r => r.url.startsWith('https://speed.cloudflare.com/__down?bytes='))).toBe(
+      true,
+    );
+  });
+
+  it('leaves the connect time unknown when discovery already reached the host', async () => {
+    const listUrl = 'https://list.example/servers.json';
+    const libreSpeed = {
+      id: 'ls-1',
+      name: 'LibreSpeed',
+      location: 'Madrid',
+      provider: 'librespeed',
+      downloadUrl: 'https://ls.example/backend/garbage.php',
+      uploadUrl: 'https://ls.example/backend/empty.php',
+      pingUrl: 'https://ls.example/backend/empty.php',
+    };
+    pingHandler = ({ url }) =>
+      url === listUrl ? respond(url, JSON.stringify([libreSpeed])) : respond(url);
+
+    const result = await runTest({ plan: downloadOnly, serverListUrl: listUrl });
+
+    expect(result.serverInfo.id).toBe('ls-1');
+    expect(result.connectionTimings?.connectMs).toBeNull();
+    expect(result.connectionTimings?.ttfbMs).not.toBeNull();
+  });
+
+  it('measures the connect time on a host discovery did not reach', async () => {
+    const result = await runTest({ plan: downloadOnly });
+
+    expect(result.connectionTimings?.connectMs).not.toBeNull();
+  });
+
+  it('uses custom endpoints as a whole, with the configured provider', async () => {
+    const result = await runTest({
+      plan: downloadOnly,
+      provider: 'librespeed',
+      downloadTestUrl: 'https://ls.example/backend/garbage.php',
+      uploadTestUrl: 'https://ls.example/backend/empty.php',
+      pingTestUrl: 'https://ls.example/backend/empty.php',
+    });
+
+    const downloads = requests.filter(r => r.url.includes('garbage.php'));
+    expect(result.serverInfo).toMatchObject({ id: 'custom', location: 'ls.example' });
+    expect(downloads.length).toBeGreaterThan(0);
+    downloads.forEach(r => expect(r.url).toMatch(/[?&]ckSize=\d+/));
+    expect(requests.some(r => r.url.includes('cloudflare.com/__'))).toBe(false);
+    expect(requests.some(r => r.url === 'https://1.1.1.1')).toBe(false); // sin descubrimiento
+  });
+});
+
+// ===============================
+// PRESUPUESTO DE FASE Y REINTENTOS
+// ===============================
+
+describe('phase budget', () => {
+  // Petición que no atiende al abort y responde pasado el presupuesto de la fase
+  const lateDownload: Handler = async request => {
+    await delay(1500);
+    return defaultDownload(request);
+  };
+  const shortDownload = plan({ phase: 'download', durationSeconds: 0.2, connections: 1 });
+
+  it('gives every ping sample its own request timeout', async () => {
+    pingHandler = async ({ url }) => {
+      await delay(150);
+      return respond(url);
+    };
+
+    const result = await runTest({ plan: plan({ phase: 'ping' }), pingSamples: 10, timeout: 1000 });
+
+    expect(result.ping).toBeGreaterThanOrEqual(150);
+    expect(result.packetLoss).toBe(0);
+  });
+
+  it('fails a phase that exceeds its budget with the attempts made', async () => {
+    downloadHandler = lateDownload;
+
+    const failure = runTest({ plan: shortDownload, timeout: 1000 });
+
+    await expect(failure).rejects.toMatchObject({
+      type: 'timeout',
+      message: 'The download phase exceeded 1200ms',
+      details: { phase: 'download', attempts: [expect.objectContaining({ attempt: 1 })] },
+    });
+  });
+
+  it('retries a phase that exceeded its budget', async () => {
+    let attempts = 0;
+    downloadHandler = request =>
+      ++attempts === 1 ? lateDownload(request) : defaultDownload(request);
+
+    const result = await runTest({ plan: shortDownload, timeout: 1000, retryAttempts: 1 });
+
+    expect(attempts).toBeGreaterThan(1);
+    expect(result.bytesDownloaded).toBeGreaterThan(0);
+  });
+});
+
+// ===============================
+// PING POR WEBSOCKET
+// ===============================
+
+describe('WebSocket ping', () => {
+  const originalWebSocket = globalThis.WebSocket;
+  const pingOnly = plan({ phase: 'ping' });
+  const pingUrl = 'https://1.1.1.1';
+
+  // Abre (o no) y nunca devuelve un eco
+  const fakeSocket = (opens: boolean) =>
+    class {
+      onopen: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      onmessage: (() => void) | null = null;
+
+      constructor() {
+        setTimeout(() => {
+          if (opens) {
+            this.onopen?.();
+          } else {
+            this.onerror?.();
+            this.onclose?.();
+          }
+        }, 5);
+      }
+
+      send() {}
+      close() {}
+    };
+
+  afterEach(() => {
+    globalThis.WebSocket = originalWebSocket;
+  });
+
+  it('reports full loss when the socket opens but nothing echoes', async () => {
+    globalThis.WebSocket = fakeSocket(true) as unknown as typeof WebSocket;
+
+    const result = await runTest({
+      plan: pingOnly,
+      pingSamples: 3,
+      pingWebSocketUrl: 'wss://echo.example',
+    });
+
+    expect(result.lossMethod).toBe('packet');
+    expect(result.packetLoss).toBe(100);
+    // Ningún ping HTTP aparte de las sondas del descubrimiento
+    expect(requests.filter(r => r.url === pingUrl)).toHaveLength(
+      SPEED_TEST_CONSTANTS.SERVER_PROBE_SAMPLES,
+    );
+  });
+
+  it('falls back to HTTP when the socket cannot open', async () => {
+    globalThis.WebSocket = fakeSocket(false) as unknown as typeof WebSocket;
+
+    const result = await runTest({
+      plan: pingOnly,
+      pingSamples: 3,
+      pingWebSocketUrl: 'wss://echo.example',
+    });
+
+    expect(result.lossMethod).toBe('request-failure');
+    expect(result.packetLoss).toBe(0);
+  });
+});
+
+// ===============================
+// CANCELACIÓN
+// ===============================
+
+describe('stopTest', () => {
+  it('aborts the transfers in flight and leaves the service idle', async () => {
+    const service = createSpeedTestService();
+    const running = service.startTest({
+      saveHistory: false,
+      retryAttempts: 0,
+      plan: plan({ phase: 'download', durationSeconds: 10, connections: 2 }),
+    });
+
+    await waitFor(() => streams.active === 2);
+    service.stopTest();
+
+    await expect(running).rejects.toMatchObject({ type: 'cancelled' });
+    expect(streams.cancelled).toBe(2);
+    expect(streams.active).toBe(0);
+    expect(service.isTestRunning()).toBe(false);
+  });
+
+  it('cancels server discovery', async () => {
+    pingHandler = stalled;
+    const service = createSpeedTestService();
+    const running = service.startTest({
+      saveHistory: false,
+      retryAttempts: 0,
+      plan: plan({ phase: 'download', durationSeconds: 10, connections: 1 }),
+    });
+
+    await waitFor(() => requests.some(r => r.url === 'https://1.1.1.1'));
+    service.stopTest();
+
+    await expect(running).rejects.toMatchObject({ type: 'cancelled' });
+    expect(requests.some(r => r.url.includes('__down'))).toBe(false);
+    expect(service.isTestRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @format
+ */
+
+import {
+  calculateMbps,
+  estimateThroughput,
+  isThroughputStable,
+  ThroughputMeter,
+} from '../src/utils/throughput';
+import { percentile, trimmedMean } from '../src/utils/statistics';
+import { ThroughputEstimator } from '../src/types/SpeedTest';
+
+const MEGABIT_BYTES = 1e6 / 8;
+
+const estimator = (overrides: Partial<ThroughputEstimator>): ThroughputEstimator => ({
+  method: 'mean',
+  warmupMs: 0,
+  bucketMs: 1000,
+  trimFraction: 0.1,
+  ...overrides,
+});
+
+describe('statistics', () => {
+  test('percentile interpolates between ranks', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([10, 20], 90)).toBeCloseTo(19);
+    expect(percentile([], 90)).toBe(0);
+  });
+
+  test('trimmedMean drops the extremes', () => {
+    expect(trimmedMean([100, 1, 2, 3, 4, 5, 6, 7, 8, 0], 0.1)).toBe(4.5);
+  });
+});
+
+describe('ThroughputMeter', () => {
+  test('rollingMbps only counts bytes inside the window', () => {
+    const meter = new ThroughputMeter(0);
+    meter.record(10 * MEGABIT_BYTES, 100);
+    meter.record(2 * MEGABIT_BYTES, 1500);
+
+    expect(meter.rollingMbps(1000, 2000)).toBeCloseTo(2);
+    expect(meter.totalBytes).toBe(12 * MEGABIT_BYTES);
+  });
+
+  test('recordSpan spreads acknowledged bytes across the request', () => {
+    const meter = new ThroughputMeter(0);
+    meter.recordSpan(4 * MEGABIT_BYTES, 0, 3999);
+
+    const buckets = meter.bucketMbps(1000, 0, 4000);
+    expect(buckets).toHaveLength(4);
+    buckets.forEach(mbps => expect(mbps).toBeCloseTo(1));
+  });
+});
+
+describe('estimateThroughput', () => {
+  // Slow-start: 1 Mbps el primer segundo, luego 10 Mbps estables
+  const meter = new ThroughputMeter(0);
+  meter.record(MEGABIT_BYTES, 500);
+  for (let second = 1; second < 5; second++) {
+    meter.record(10 * MEGABIT_BYTES, second * 1000 + 500);
+  }
+
+  test('discards the warm-up window', () => {
+    expect(estimateThroughput(meter, estimator({ warmupMs: 0 }), 5000)).toBeCloseTo(8.2);
+    expect(estimateThroughput(meter, estimator({ warmupMs: 1000 }), 5000)).toBeCloseTo(10);
+  });
+
+  test('supports percentile and trimmed-mean methods', () => {
+    expect(estimateThroughput(meter, estimator({ method: 'p90' }), 5000)).toBeCloseTo(10);
+    expect(
+      estimateThroughput(meter, estimator({ method: 'trimmed-mean', trimFraction: 0.2 }), 5000),
+    ).toBeCloseTo(10);
+  });
+
+  test('falls back to the overall average when the phase is too short', () => {
+    expect(estimateThroughput(meter, estimator({ warmupMs: 10000 }), 5000)).toBeCloseTo(
+      calculateMbps(meter.totalBytes, 5000),
+    );
+  });
+});
+
+describe('isThroughputStable', () => {
+  const series = (values: number[]) =>
+    values.map((mbps, index) => ({ elapsedMs: (index + 1) * 500, mbps }));
+
+  test('requires the whole window to stay within tolerance', () => {
+    expect(isThroughputStable(series([10, 50, 98, 100, 101, 99, 100, 100]), 2000, 0.05)).toBe(true);
+    expect(isThroughputStable(series([10, 50, 98, 100, 120, 99, 100, 100]), 2000, 0.05)).toBe(false);
+  });
+
+  test('keeps going while the speed is still climbing', () => {
+    expect(isThroughputStable(series([10, 20, 30, 40, 50, 60, 70, 80]), 2000, 0.05)).toBe(false);
+  });
+
+  test('waits until a full window has elapsed', () => {
+    expect(isThroughputStable(series([100, 100, 100]), 2000, 0.05)).toBe(false);
+  });
+});
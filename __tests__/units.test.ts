@@ -0,0 +1,54 @@
+/**
+ * @format
+ */
+
+import {
+  convertSpeed,
+  formatBytes,
+  formatSpeed,
+  migrateLegacySpeedUnits,
+} from '../src/utils/units';
+import { SpeedTestResult } from '../src/types/SpeedTest';
+
+const legacyResult = {
+  id: 'test_1',
+  timestamp: new Date('2025-01-01T00:00:00Z'),
+  downloadSpeed: 100,
+  uploadSpeed: 10,
+  ping: 20,
+  jitter: 2,
+  packetLoss: 0,
+} as SpeedTestResult;
+
+describe('speed units', () => {
+  test('converts decimal Mbps to every display unit', () => {
+    expect(convertSpeed(100, 'Mbps')).toBe(100);
+    expect(convertSpeed(100, 'Kbps')).toBe(100000);
+    expect(convertSpeed(100, 'Gbps')).toBeCloseTo(0.1);
+    expect(convertSpeed(100, 'MB/s')).toBe(12.5);
+    expect(convertSpeed(100, 'Mibps')).toBeCloseTo(95.367, 3);
+  });
+
+  test('formats with fewer decimals for larger values', () => {
+    expect(formatSpeed(0.5, 'Mbps')).toBe('0.50');
+    expect(formatSpeed(5.26, 'Mbps')).toBe('5.3');
+    expect(formatSpeed(250.4, 'Mbps')).toBe('250');
+  });
+
+  test('migrates legacy binary results once', () => {
+    const migrated = migrateLegacySpeedUnits(legacyResult);
+
+    expect(migrated.unitSystem).toBe('si');
+    expect(migrated.downloadSpeed).toBe(104.86);
+    expect(migrated.uploadSpeed).toBe(10.49);
+    expect(migrateLegacySpeedUnits(migrated)).toBe(migrated);
+  });
+});
+
+describe('formatBytes', () => {
+  test('uses decimal multiples like the SI speed units', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1500)).toBe('1.5 KB');
+    expect(formatBytes(250 * 1000 * 1000)).toBe('250 MB');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @format
+ */
+
+import { createWebSocketProbe, WebSocketProbeOptions } from '../src/services/WebSocketProbe';
+
+// Eco configurable: null descarta el mensaje, un número lo devuelve tras esos ms
+type EchoDelay = (seq: number) => number | null;
+
+class FakeSocket {
+  static opens = true;
+  static echoDelay: EchoDelay = () => 10;
+  static last: FakeSocket | null = null;
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  closed = false;
+
+  constructor() {
+    FakeSocket.last = this;
+    if (FakeSocket.opens) {
+      setTimeout(() => this.onopen?.(), 1);
+    }
+  }
+
+  send(data: string) {
+    const delay = FakeSocket.echoDelay(JSON.parse(data).seq);
+    if (delay !== null) {
+      setTimeout(() => this.onmessage?.({ data }), delay);
+    }
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+const OPTIONS: WebSocketProbeOptions = {
+  url: 'wss://echo.example',
+  count: 5,
+  intervalMs: 100,
+  timeoutMs: 1000,
+};
+
+const originalWebSocket = globalThis.WebSocket;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  FakeSocket.opens = true;
+  FakeSocket.echoDelay = () => 10;
+  FakeSocket.last = null;
+  globalThis.WebSocket = FakeSocket as unknown as typeof WebSocket;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  globalThis.WebSocket = originalWebSocket;
+});
+
+// Avanza el reloj lo suficiente para que la sonda termine en cualquier caso
+const runProbe = async (options: Partial<WebSocketProbeOptions> = {}) => {
+  const outcome = createWebSocketProbe()
+    .run({ ...OPTIONS, ...options })
+    .then(
+      result => ({ result, error: null }),
+      error => ({ result: null, error: error as Error }),
+    );
+  await jest.advanceTimersByTimeAsync(10000);
+  return outcome;
+};
+
+describe('WebSocketProbe', () => {
+  it('measures the RTT of every echo', async () => {
+    const { result } = await runProbe();
+
+    expect(result).toMatchObject({ sent: 5, lost: 0, reordered: 0 });
+    expect(result!.rtts).toEqual([10, 10, 10, 10, 10]);
+    expect(result!.samples.map(sample => sample.elapsedMs)).toEqual([1, 101, 201, 301, 401]);
+    expect(FakeSocket.last!.closed).toBe(true);
+  });
+
+  it('counts missing echoes as loss', async () => {
+    FakeSocket.echoDelay = seq => (seq === 1 || seq === 3 ? null : 10);
+
+    const { result } = await runProbe();
+
+    expect(result).toMatchObject({ sent: 5, lost: 2 });
+    expect(result!.rtts).toHaveLength(3);
+  });
+
+  it('counts an echo that arrives after the timeout as lost', async () => {
+    FakeSocket.echoDelay = seq => (seq === 2 ? 1500 : 10);
+
+    const { result } = await runProbe();
+
+    expect(result).toMatchObject({ sent: 5, lost: 1 });
+    expect(Math.max(...result!.rtts)).toBe(10);
+  });
+
+  it('counts echoes that overtake earlier ones as reordered', async () => {
+    FakeSocket.echoDelay = seq => (seq === 0 ? 250 : 10);
+
+    const { result } = await runProbe();
+
+    expect(result).toMatchObject({ lost: 0, reordered: 1 });
+  });
+
+  it('rejects when the connection does not open in time', async () => {
+    FakeSocket.opens = false;
+
+    const { error } = await runProbe();
+
+    expect(error?.message).toMatch(/timed out/);
+    expect(FakeSocket.last!.closed).toBe(true);
+  });
+
+  it('rejects and closes the socket when aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 150);
+
+    const { error } = await runProbe({ signal: controller.signal });
+
+    expect(error?.message).toMatch(/aborted/);
+    expect(FakeSocket.last!.closed).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Servidor de eco WebSocket para probar el modo de ping por WebSocket
+ *
+ * Uso: npm run echo-server [-- --port 8765]
+ * Después, en SpeedTestConfig: pingWebSocketUrl: 'ws://<ip-del-equipo>:8765'
+ *
+ * Con --loss 0.1 descarta el 10% de los mensajes para simular pérdida.
+ */
+
+const { WebSocketServer } = require('ws');
+
+const readArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? Number(process.argv[index + 1]) : fallback;
+};
+
+const port = readArg('port', 8765);
+const lossRate = readArg('loss', 0);
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket, request) => {
+  console.log(`Client connected from ${request.socket.remoteAddress}`);
+
+  socket.on('message', data => {
+    if (Math.random() < lossRate) {
+      return;
+    }
+    socket.send(data.toString());
+  });
+});
+
+console.log(`WebSocket echo server listening on ws://0.0.0.0:${port}`);
@@ -0,0 +1,266 @@
+/**
+ * SpeedChart Component - Gráfica de velocidad y latencia en el tiempo
+ * Principio SOLID: Single Responsibility - Solo dibuja las series de un resultado
+ * Sin dependencias de SVG: cada segmento de la curva es una View rotada
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { SpeedChartProps } from '../../types/SpeedTest';
+import { convertSpeed } from '../../utils/units';
+
+// ===============================
+// CONFIGURACIÓN DEL COMPONENTE
+// ===============================
+
+const COLORS = {
+  download: '#2196F3',
+  upload: '#4CAF50',
+  ping: '#FF9800',
+  grid: '#E0E0E0',
+  label: '#757575',
+};
+
+const LINE_THICKNESS = 2;
+const PING_PLOT_HEIGHT = 60;
+
+interface ChartPoint {
+  x: number; // ms
+  y: number;
+}
+
+interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  points: ChartPoint[];
+}
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const SpeedChart: React.FC<SpeedChartProps> = ({
+  downloadSamples = [],
+  uploadSamples = [],
+  pingSamples = [],
+  unit = 'Mbps',
+  height = 140,
+}) => {
+  const throughputSeries = useMemo<ChartSeries[]>(
+    () =>
+      [
+        {
+          key: 'download',
+          label: 'Download',
+          color: COLORS.download,
+          points: downloadSamples.map(s => ({ x: s.elapsedMs, y: convertSpeed(s.mbps, unit) })),
+        },
+        {
+          key: 'upload',
+          label: 'Upload',
+          color: COLORS.upload,
+          points: uploadSamples.map(s => ({ x: s.elapsedMs, y: convertSpeed(s.mbps, unit) })),
+        },
+      ].filter(series => series.points.length > 1),
+    [downloadSamples, uploadSamples, unit],
+  );
+
+  const pingSeries = useMemo<ChartSeries[]>(
+    () =>
+      pingSamples.length > 1
+        ? [
+            {
+              key: 'ping',
+              label: 'Ping',
+              color: COLORS.ping,
+              points: pingSamples.map(s => ({ x: s.elapsedMs, y: s.rtt })),
+            },
+          ]
+        : [],
+    [pingSamples],
+  );
+
+  if (throughputSeries.length === 0 && pingSeries.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {throughputSeries.length > 0 && (
+        <LinePlot series={throughputSeries} height={height} unit={unit} />
+      )}
+      {pingSeries.length > 0 && (
+        <LinePlot series={pingSeries} height={PING_PLOT_HEIGHT} unit="ms" />
+      )}
+    </View>
+  );
+};
+
+// ===============================
+// GRÁFICA DE LÍNEAS
+// ===============================
+
+interface LinePlotProps {
+  series: ChartSeries[];
+  height: number;
+  unit: string;
+}
+
+const LinePlot: React.FC<LinePlotProps> = ({ series, height, unit }) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const allPoints = series.flatMap(s => s.points);
+  const maxX = Math.max(...allPoints.map(p => p.x), 1);
+  const maxY = Math.max(...allPoints.map(p => p.y), 1);
+
+  const toPixels = (point: ChartPoint) => ({
+    x: (point.x / maxX) * width,
+    y: height - (point.y / maxY) * height,
+  });
+
+  return (
+    <View style={styles.plotContainer}>
+      <View style={styles.axisRow}>
+        <Text style={styles.axisLabel}>
+          {formatAxisValue(maxY)} {unit}
+        </Text>
+        <View style={styles.legend}>
+          {series.map(s => (
+            <View key={s.key} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: s.color }]} />
+              <Text style={styles.legendText}>{s.label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <View style={[styles.plot, { height }]} onLayout={handleLayout}>
+        {width > 0 &&
+          series.map(s =>
+            s.points.slice(1).map((point, index) => (
+              <Segment
+                key={`${s.key}-${index}`}
+                from={toPixels(s.points[index])}
+                to={toPixels(point)}
+                color={s.color}
+              />
+            )),
+          )}
+      </View>
+
+      <View style={styles.axisRow}>
+        <Text style={styles.axisLabel}>0s</Text>
+        <Text style={styles.axisLabel}>{(maxX / 1000).toFixed(1)}s</Text>
+      </View>
+    </View>
+  );
+};
+
+// ===============================
+// SEGMENTO DE LÍNEA
+// ===============================
+
+interface SegmentProps {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  color: string;
+}
+
+const Segment: React.FC<SegmentProps> = ({ from, to, color }) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  const angle = Math.atan2(dy, dx);
+
+  // Se posiciona centrado en el punto medio y se rota sobre su centro
+  return (
+    <View
+      style={[
+        styles.segment,
+        {
+          width: length,
+          left: (from.x + to.x) / 2 - length / 2,
+          top: (from.y + to.y) / 2 - LINE_THICKNESS / 2,
+          backgroundColor: color,
+          transform: [{ rotate: `${angle}rad` }],
+        },
+      ]}
+    />
+  );
+};
+
+const formatAxisValue = (value: number): string =>
+  value < 10 ? value.toFixed(1) : Math.round(value).toString();
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+
+  plotContainer: {
+    marginTop: 12,
+  },
+
+  plot: {
+    position: 'relative',
+    overflow: 'hidden',
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: COLORS.grid,
+  },
+
+  segment: {
+    position: 'absolute',
+    height: LINE_THICKNESS,
+    borderRadius: LINE_THICKNESS / 2,
+  },
+
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+
+  axisLabel: {
+    fontSize: 11,
+    color: COLORS.label,
+  },
+
+  legend: {
+    flexDirection: 'row',
+  },
+
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+
+  legendText: {
+    fontSize: 11,
+    color: COLORS.label,
+  },
+});
+
+// ===============================
+// EXPORT POR DEFECTO
+// ===============================
+
+export default SpeedChart;
@@ -15,6 +15,7 @@ import {
   TextStyle,
 } from 'react-native';
 import { SpeedMeterProps, SPEED_RANGES } from '../../types/SpeedTest';
+import { formatSpeed } from '../../utils/units';
 
 // ===============================
 // CONFIGURACIÓN DEL COMPONENTE
@@ -63,6 +64,7 @@ export const SpeedMeter: React.FC<SpeedMeterProps> = ({
   maxSpeed,
   testType,
   isActive,
+  unit = 'Mbps',
   size = 'medium',
 }) => {
   // Animaciones
@@ -94,16 +96,11 @@ export const SpeedMeter: React.FC<SpeedMeterProps> = ({
     return Math.min(currentSpeed / maxSpeed, 1);
   }, [currentSpeed, maxSpeed]);
 
-  // Formatear velocidad para mostrar
-  const formattedSpeed = useMemo(() => {
-    if (currentSpeed < 1) {
-      return currentSpeed.toFixed(2);
-    } else if (currentSpeed < 10) {
-      return currentSpeed.toFixed(1);
-    } else {
-      return Math.round(currentSpeed).toString();
-    }
-  }, [currentSpeed]);
+  // Formatear velocidad en la unidad elegida (los rangos de color siguen en Mbps)
+  const formattedSpeed = useMemo(
+    () => formatSpeed(currentSpeed, unit),
+    [currentSpeed, unit],
+  );
 
   // ===============================
   // EFECTOS DE ANIMACIÓN
@@ -223,7 +220,7 @@ export const SpeedMeter: React.FC<SpeedMeterProps> = ({
         <Text style={speedTextStyle}>
           {formattedSpeed}
         </Text>
-        <Text style={styles.unitText}>Mbps</Text>
+        <Text style={styles.unitText}>{unit}</Text>
         <Text style={labelTextStyle}>
           {testType === 'download' ? 'Download' : 'Upload'}
         </Text>
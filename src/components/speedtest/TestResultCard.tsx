@@ -0,0 +1,148 @@
+/**
+ * TestResultCard Component - Resumen de un resultado en listas de historial
+ * Principio SOLID: Single Responsibility - Solo presenta un resultado
+ * Las fases que el test no midió se muestran como '–'
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { TestResultCardProps, resultIncludesPhase } from '../../types/SpeedTest';
+import { formatSpeed } from '../../utils/units';
+
+// ===============================
+// CONFIGURACIÓN DEL COMPONENTE
+// ===============================
+
+const COLORS = {
+  download: '#2196F3',
+  upload: '#4CAF50',
+  ping: '#FF9800',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+const formatDate = (date: Date): string =>
+  `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const TestResultCard: React.FC<TestResultCardProps> = ({
+  result,
+  onPress,
+  showDetails = false,
+  unit = 'Mbps',
+}) => {
+  const measuredPing = resultIncludesPhase(result, 'ping');
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress} disabled={!onPress}>
+      <View style={styles.header}>
+        <Text style={styles.date}>{formatDate(result.timestamp)}</Text>
+        <Text style={styles.network}>
+          {result.networkInfo.type.toUpperCase()}
+          {result.networkInfo.carrier ? ` · ${result.networkInfo.carrier}` : ''}
+        </Text>
+      </View>
+
+      <View style={styles.metrics}>
+        <View style={styles.metric}>
+          <Text style={[styles.metricValue, { color: COLORS.download }]}>
+            {resultIncludesPhase(result, 'download') ? formatSpeed(result.downloadSpeed, unit) : '–'}
+          </Text>
+          <Text style={styles.metricLabel}>↓ {unit}</Text>
+        </View>
+
+        <View style={styles.metric}>
+          <Text style={[styles.metricValue, { color: COLORS.upload }]}>
+            {resultIncludesPhase(result, 'upload') ? formatSpeed(result.uploadSpeed, unit) : '–'}
+          </Text>
+          <Text style={styles.metricLabel}>↑ {unit}</Text>
+        </View>
+
+        <View style={styles.metric}>
+          <Text style={[styles.metricValue, { color: COLORS.ping }]}>
+            {measuredPing ? result.ping : '–'}
+          </Text>
+          <Text style={styles.metricLabel}>Ping ms</Text>
+        </View>
+      </View>
+
+      {showDetails && (
+        <Text style={styles.details}>
+          {result.serverInfo.name} · Jitter {measuredPing ? `${result.jitter} ms` : '–'} · Loss{' '}
+          {measuredPing ? `${result.packetLoss}%` : '–'}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 16,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+
+  date: {
+    fontSize: 13,
+    color: COLORS.text,
+    fontWeight: '500',
+  },
+
+  network: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+
+  metrics: {
+    flexDirection: 'row',
+  },
+
+  metric: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  metricValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+
+  metricLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+
+  details: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
+
+// ===============================
+// EXPORT POR DEFECTO
+// ===============================
+
+export default TestResultCard;
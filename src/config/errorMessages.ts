@@ -0,0 +1,161 @@
+/**
+ * Catálogo de mensajes de error para el usuario
+ * Un texto por SpeedTestError e idioma; el tipado Record obliga a que
+ * cada código nuevo llegue con su traducción
+ */
+
+import { ErrorDescription, ErrorLocale, SpeedTestError } from '../types/SpeedTest';
+
+const ERROR_MESSAGES: Record<ErrorLocale, Record<SpeedTestError, ErrorDescription>> = {
+  en: {
+    'network-unavailable': {
+      title: 'No connection',
+      explanation: 'Your device is not connected to a network.',
+      suggestion: 'Turn on Wi-Fi or mobile data and try again.',
+    },
+    'server-unreachable': {
+      title: 'Server unreachable',
+      explanation: 'The test server did not respond.',
+      suggestion: 'Check your connection or try again in a few minutes.',
+    },
+    timeout: {
+      title: 'Connection too slow',
+      explanation: 'The server took too long to respond and the test was stopped.',
+      suggestion: 'Move closer to your router or try again when the network is less busy.',
+    },
+    'permission-denied': {
+      title: 'Permission denied',
+      explanation: 'The app is not allowed to access the network information it needs.',
+      suggestion: 'Grant the permission in your device settings and try again.',
+    },
+    cancelled: {
+      title: 'Test cancelled',
+      explanation: 'The test was stopped before it finished.',
+      suggestion: 'Start a new test whenever you are ready.',
+    },
+    'dns-failure': {
+      title: 'Name lookup failed',
+      explanation: 'The test server address could not be resolved (DNS).',
+      suggestion: 'Check your DNS settings or switch to another network.',
+    },
+    'tls-error': {
+      title: 'Secure connection failed',
+      explanation: 'The secure connection to the server could not be established.',
+      suggestion: 'Check the date and time on your device and avoid networks that inspect traffic.',
+    },
+    'http-status': {
+      title: 'Unexpected server response',
+      explanation: 'The server answered with an error status.',
+      suggestion: 'Try again later or pick a different server.',
+    },
+    'captive-portal': {
+      title: 'Sign-in required',
+      explanation: 'This network redirects traffic to a login page.',
+      suggestion: 'Open a browser, complete the network sign-in and run the test again.',
+    },
+    'reader-unsupported': {
+      title: 'Unsupported device',
+      explanation: 'This device cannot stream downloads, which the test needs.',
+      suggestion: 'Update the app or your operating system.',
+    },
+    offline: {
+      title: 'Connection lost',
+      explanation: 'The network connection dropped while the test was running.',
+      suggestion: 'Wait until your connection is stable and try again.',
+    },
+    'server-overload': {
+      title: 'Server busy',
+      explanation: 'The test server is handling too many requests right now.',
+      suggestion: 'Wait a minute and try again, or pick a different server.',
+    },
+    'unknown-error': {
+      title: 'Test failed',
+      explanation: 'Something unexpected went wrong.',
+      suggestion: 'Try again. If it keeps happening, restart the app.',
+    },
+  },
+  es: {
+    'network-unavailable': {
+      title: 'Sin conexión',
+      explanation: 'El dispositivo no está conectado a ninguna red.',
+      suggestion: 'Activa el Wi-Fi o los datos móviles y vuelve a intentarlo.',
+    },
+    'server-unreachable': {
+      title: 'Servidor no disponible',
+      explanation: 'El servidor de pruebas no respondió.',
+      suggestion: 'Revisa tu conexión o inténtalo de nuevo en unos minutos.',
+    },
+    timeout: {
+      title: 'Conexión demasiado lenta',
+      explanation: 'El servidor tardó demasiado en responder y el test se detuvo.',
+      suggestion: 'Acércate al router o repite el test cuando la red esté menos cargada.',
+    },
+    'permission-denied': {
+      title: 'Permiso denegado',
+      explanation: 'La app no tiene permiso para leer la información de red que necesita.',
+      suggestion: 'Concede el permiso en los ajustes del dispositivo y vuelve a intentarlo.',
+    },
+    cancelled: {
+      title: 'Test cancelado',
+      explanation: 'El test se detuvo antes de terminar.',
+      suggestion: 'Inicia un nuevo test cuando quieras.',
+    },
+    'dns-failure': {
+      title: 'Error de DNS',
+      explanation: 'No se pudo resolver la dirección del servidor de pruebas.',
+      suggestion: 'Revisa la configuración DNS o cambia de red.',
+    },
+    'tls-error': {
+      title: 'Error de conexión segura',
+      explanation: 'No se pudo establecer la conexión segura con el servidor.',
+      suggestion: 'Comprueba la fecha y hora del dispositivo y evita redes que inspeccionen el tráfico.',
+    },
+    'http-status': {
+      title: 'Respuesta inesperada',
+      explanation: 'El servidor respondió con un estado de error.',
+      suggestion: 'Inténtalo más tarde o elige otro servidor.',
+    },
+    'captive-portal': {
+      title: 'Inicio de sesión requerido',
+      explanation: 'Esta red redirige el tráfico a una página de acceso.',
+      suggestion: 'Abre el navegador, completa el acceso a la red y repite el test.',
+    },
+    'reader-unsupported': {
+      title: 'Dispositivo no compatible',
+      explanation: 'Este dispositivo no permite leer descargas por partes, algo que el test necesita.',
+      suggestion: 'Actualiza la app o el sistema operativo.',
+    },
+    offline: {
+      title: 'Conexión perdida',
+      explanation: 'La conexión de red se cortó mientras el test estaba en marcha.',
+      suggestion: 'Espera a que la conexión sea estable y vuelve a intentarlo.',
+    },
+    'server-overload': {
+      title: 'Servidor saturado',
+      explanation: 'El servidor de pruebas está atendiendo demasiadas peticiones.',
+      suggestion: 'Espera un minuto y vuelve a intentarlo, o elige otro servidor.',
+    },
+    'unknown-error': {
+      title: 'El test falló',
+      explanation: 'Ocurrió un error inesperado.',
+      suggestion: 'Vuelve a intentarlo. Si sigue pasando, reinicia la app.',
+    },
+  },
+};
+
+// Idioma del dispositivo según Intl; cualquier idioma sin catálogo cae en inglés
+export const resolveErrorLocale = (): ErrorLocale => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale.toLowerCase();
+    return locale.startsWith('es') ? 'es' : 'en';
+  } catch (error) {
+    return 'en';
+  }
+};
+
+export const describeError = (
+  type: SpeedTestError,
+  locale: ErrorLocale = resolveErrorLocale(),
+): ErrorDescription => {
+  return ERROR_MESSAGES[locale][type];
+};
@@ -0,0 +1,33 @@
+/**
+ * SpeedTestContext - Estado de SpeedTest compartido entre pantallas
+ * Una sola instancia de useSpeedTest (servicio, historial, test en curso)
+ * para toda la app; cada pantalla la lee con useSpeedTestContext
+ */
+
+import React, { createContext, useContext } from 'react';
+import { SpeedTestContextValue } from '../types/SpeedTest';
+import { useSpeedTest } from './useSpeedTest';
+
+const SpeedTestContext = createContext<SpeedTestContextValue | null>(null);
+
+export const SpeedTestProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const value = useSpeedTest();
+  return <SpeedTestContext.Provider value={value}>{children}</SpeedTestContext.Provider>;
+};
+
+export const useSpeedTestContext = (): SpeedTestContextValue => {
+  const value = useContext(SpeedTestContext);
+  if (!value) {
+    throw new Error('useSpeedTestContext must be used within a SpeedTestProvider');
+  }
+  return value;
+};
+
+/**
+ * Ajustes persistidos; viven en el contexto para que un cambio hecho en
+ * Ajustes llegue a la misma instancia que lanza los tests
+ */
+export const useSettings = () => {
+  const { settings, settingsLoaded, updateSettings } = useSpeedTestContext();
+  return { settings, settingsLoaded, updateSettings };
+};
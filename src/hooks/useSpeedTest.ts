@@ -11,10 +11,31 @@ import {
   SpeedTestProgress,
   SpeedTestErrorInfo,
   SpeedTestContextValue,
+  SpeedTestConfig,
+  HistoryQuery,
+  TestSettings,
+  DEFAULT_TEST_SETTINGS,
+  DEFAULT_HISTORY_RETENTION,
+  MonthlyDataUsage,
   NetworkInfo,
-  SPEED_TEST_CONSTANTS
+  ServerCandidate,
+  SpeedUnit,
+  SPEED_UNITS,
+  SPEED_TEST_CONSTANTS,
 } from '../types/SpeedTest';
 import { createSpeedTestService, ISpeedTestService } from '../services/SpeedTestService';
+import { createDataUsageStore } from '../services/DataUsageStore';
+import { createHistoryRepository } from '../services/HistoryRepository';
+import { createSettingsStore, toSpeedTestConfig } from '../services/SettingsStore';
+import { classifyError, createSpeedTestError } from '../utils/errors';
+import {
+  HistoryFilterOptions,
+  HistoryStats,
+  collectFilterOptions,
+  summarizeHistory,
+} from '../utils/history';
+
+const SPEED_UNIT_KEY = 'speedtest_speed_unit';
 
 // ===============================
 // HOOK PRINCIPAL
@@ -30,9 +51,20 @@ export const useSpeedTest = (): SpeedTestContextValue => {
   const [error, setError] = useState<SpeedTestErrorInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [testHistory, setTestHistory] = useState<SpeedTestResult[]>([]);
+  const [historyCount, setHistoryCount] = useState(0);
+  const [servers, setServers] = useState<ServerCandidate[]>([]);
+  const [settings, setSettings] = useState<TestSettings>(DEFAULT_TEST_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
   
   // Referencias
   const serviceRef = useRef<ISpeedTestService | null>(null);
+  const lastConfigRef = useRef<Partial<SpeedTestConfig> | undefined>(undefined);
+  // Últimos ajustes pedidos, aunque su guardado siga en curso
+  const settingsRef = useRef<TestSettings>(DEFAULT_TEST_SETTINGS);
+
+  // Compartido con el servicio para que sus escrituras pasen por la misma cola
+  const historyRepository = useMemo(() => createHistoryRepository(), []);
+  const settingsStore = useMemo(() => createSettingsStore(), []);
 
   // ===============================
   // INICIALIZACIÓN
@@ -42,10 +74,15 @@ export const useSpeedTest = (): SpeedTestContextValue => {
     // Crear servicio con callback de progreso
     serviceRef.current = createSpeedTestService((progress: SpeedTestProgress) => {
       setProgress(progress);
-    });
+    }, historyRepository);
 
-    // Cargar historial al inicializar
+    // Cargar historial y ajustes al inicializar
     loadTestHistory();
+    settingsStore.load().then(loaded => {
+      settingsRef.current = loaded;
+      setSettings(loaded);
+      setSettingsLoaded(true);
+    });
 
     return () => {
       // Cleanup: detener test si está corriendo
@@ -62,34 +99,37 @@ export const useSpeedTest = (): SpeedTestContextValue => {
   const loadTestHistory = useCallback(async () => {
     try {
       setIsLoading(true);
-      const key = 'speedtest_history';
-      const storedData = await AsyncStorage.getItem(key);
-      
-      if (storedData) {
-        const history: SpeedTestResult[] = JSON.parse(storedData);
-        // Convertir timestamps de string a Date si es necesario
-        const parsedHistory = history.map(result => ({
-          ...result,
-          timestamp: new Date(result.timestamp),
-        }));
-        setTestHistory(parsedHistory);
-      }
+      const [firstPage, count] = await Promise.all([
+        historyRepository.query({ limit: SPEED_TEST_CONSTANTS.HISTORY_PAGE_SIZE }),
+        historyRepository.count(),
+      ]);
+      setTestHistory(firstPage);
+      setHistoryCount(count);
     } catch (err) {
       console.warn('Error loading test history:', err);
-      setError({
-        type: 'unknown-error',
-        message: 'Failed to load test history',
-      });
+      setError(createSpeedTestError('unknown-error', 'Failed to load test history'));
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [historyRepository]);
+
+  const loadMoreHistory = useCallback(async () => {
+    try {
+      const nextPage = await historyRepository.query({
+        offset: testHistory.length,
+        limit: SPEED_TEST_CONSTANTS.HISTORY_PAGE_SIZE,
+      });
+      setTestHistory(current => [...current, ...nextPage]);
+    } catch (err) {
+      console.warn('Error loading more test history:', err);
+    }
+  }, [historyRepository, testHistory.length]);
 
   // ===============================
   // FUNCIONES PRINCIPALES
   // ===============================
 
-  const startTest = useCallback(async (): Promise<void> => {
+  const startTest = useCallback(async (config?: Partial<SpeedTestConfig>): Promise<void> => {
     if (!serviceRef.current) {
       throw new Error('Service not initialized');
     }
@@ -106,55 +146,162 @@ export const useSpeedTest = (): SpeedTestContextValue => {
       // Verificar conectividad antes de empezar
       const networkInfo = await serviceRef.current.getNetworkInfo();
       if (!networkInfo.isConnected) {
-        throw {
-          type: 'network-unavailable',
-          message: 'No network connection available',
-        };
+        throw createSpeedTestError('network-unavailable', 'No network connection available');
       }
 
-      // Iniciar test
-      const result = await serviceRef.current.startTest();
+      // Iniciar test; los ajustes se vuelven a aplicar en cada reintento
+      lastConfigRef.current = config;
+      const result = await serviceRef.current.startTest({ ...toSpeedTestConfig(settings), ...config });
       
       // Actualizar estado con resultado
       setCurrentTest(result);
+      setServers(serviceRef.current.getRankedServers());
       
       // Recargar historial para incluir el nuevo test
       await loadTestHistory();
       
     } catch (err) {
-      const errorInfo = err as SpeedTestErrorInfo;
+      const errorInfo = classifyError(err);
+      if (errorInfo.type === 'cancelled') {
+        // Cancelación pedida por el usuario: no es un error que mostrar
+        setProgress({ state: 'cancelled', progress: 0 });
+        return;
+      }
       setError(errorInfo);
       setProgress({ state: 'error', progress: 0 });
     } finally {
       setIsLoading(false);
     }
-  }, [loadTestHistory]);
+  }, [loadTestHistory, settings]);
 
   const stopTest = useCallback((): void => {
     if (serviceRef.current?.isTestRunning()) {
+      // startTest termina con 'cancelled' en cuanto el pipeline se detiene
       serviceRef.current.stopTest();
-      setProgress({ state: 'idle', progress: 0 });
-      setIsLoading(false);
+      setProgress({ state: 'cancelled', progress: 0 });
     }
   }, []);
 
   const retryTest = useCallback(async (): Promise<void> => {
     setError(null);
-    await startTest();
+    await startTest(lastConfigRef.current);
   }, [startTest]);
 
   const clearHistory = useCallback(async (): Promise<void> => {
     try {
-      await AsyncStorage.removeItem('speedtest_history');
+      await historyRepository.clear();
       setTestHistory([]);
+      setHistoryCount(0);
     } catch (err) {
-      setError({
-        type: 'unknown-error',
-        message: 'Failed to clear history',
-      });
+      setError(createSpeedTestError('unknown-error', 'Failed to clear history'));
+    }
+  }, [historyRepository]);
+
+  const deleteResult = useCallback(async (id: string): Promise<void> => {
+    try {
+      if (await historyRepository.remove(id)) {
+        setTestHistory(current => current.filter(result => result.id !== id));
+        setHistoryCount(count => count - 1);
+      }
+    } catch (err) {
+      setError(createSpeedTestError('unknown-error', 'Failed to delete test result'));
+    }
+  }, [historyRepository]);
+
+  const findResult = useCallback(async (id: string): Promise<SpeedTestResult | null> => {
+    const loaded = testHistory.find(result => result.id === id);
+    if (loaded) return loaded;
+
+    try {
+      const [stored] = await historyRepository.query({ filter: result => result.id === id, limit: 1 });
+      return stored ?? null;
+    } catch (err) {
+      console.warn('Error finding test result:', err);
+      return null;
+    }
+  }, [historyRepository, testHistory]);
+
+  const queryHistory = useCallback(
+    (query: HistoryQuery): Promise<SpeedTestResult[]> => historyRepository.query(query),
+    [historyRepository],
+  );
+
+  const updateSettings = useCallback(async (changes: Partial<TestSettings>): Promise<void> => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+
+    try {
+      const saved = await settingsStore.save(next);
+      if (settingsRef.current === next) {
+        settingsRef.current = saved;
+        setSettings(saved);
+      }
+    } catch (err) {
+      console.warn('Error saving settings:', err);
+    }
+  }, [settingsStore]);
+
+  const refreshServers = useCallback(async (): Promise<void> => {
+    if (!serviceRef.current) return;
+
+    try {
+      setServers(await serviceRef.current.discoverServers());
+    } catch (err) {
+      console.warn('Error discovering servers:', err);
     }
   }, []);
 
+  // ===============================
+  // RETENCIÓN DEL HISTORIAL
+  // ===============================
+
+  // Se aplica al guardado en cuanto cambia; lo recortado desaparece de la lista
+  useEffect(() => {
+    if (!settingsLoaded) return;
+
+    historyRepository
+      .setRetention({
+        ...DEFAULT_HISTORY_RETENTION,
+        maxItems: settings.historyMaxItems ?? DEFAULT_HISTORY_RETENTION.maxItems,
+        maxAgeDays: settings.historyRetentionDays ?? DEFAULT_HISTORY_RETENTION.maxAgeDays,
+      })
+      .then(loadTestHistory)
+      .catch(err => console.warn('Error applying history retention:', err));
+  }, [
+    settingsLoaded,
+    settings.historyMaxItems,
+    settings.historyRetentionDays,
+    historyRepository,
+    loadTestHistory,
+  ]);
+
+  // ===============================
+  // TESTS PROGRAMADOS
+  // ===============================
+
+  // Solo con la app abierta; se saltan en datos móviles para no gastar datos
+  // sin la confirmación del usuario, y si ya hay un test en curso
+  useEffect(() => {
+    const minutes = settings.testIntervalMinutes;
+    if (!minutes) return;
+
+    const timer = setInterval(async () => {
+      const service = serviceRef.current;
+      if (!service || service.isTestRunning()) return;
+
+      try {
+        const networkInfo = await service.getNetworkInfo();
+        if (networkInfo.type === 'cellular') return;
+        await startTest();
+      } catch (err) {
+        console.warn('Error running scheduled test:', err);
+      }
+    }, minutes * 60 * 1000);
+
+    return () => clearInterval(timer);
+  }, [settings.testIntervalMinutes, startTest]);
+
   // ===============================
   // VALOR DE RETORNO
   // ===============================
@@ -168,12 +315,27 @@ export const useSpeedTest = (): SpeedTestContextValue => {
     
     // Historial
     testHistory,
+    historyCount,
+    hasMoreHistory: testHistory.length < historyCount,
+
+    // Servidores
+    servers,
+
+    // Ajustes
+    settings,
+    settingsLoaded,
+    updateSettings,
     
     // Acciones
     startTest,
     stopTest,
     clearHistory,
+    deleteResult,
+    findResult,
+    queryHistory,
+    loadMoreHistory,
     retryTest,
+    refreshServers,
   };
 };
 
@@ -182,62 +344,132 @@ export const useSpeedTest = (): SpeedTestContextValue => {
 // ===============================
 
 /**
- * Hook para obtener información de red
+ * Hook para obtener información de red. `refresh` la vuelve a leer y la
+ * devuelve, para decidir con la red de ese momento y no con la del montaje
  */
 export const useNetworkInfo = () => {
   const [networkInfo, setNetworkInfo] = useState<NetworkInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    const loadNetworkInfo = async () => {
-      try {
-        const service = createSpeedTestService();
-        const info = await service.getNetworkInfo();
-        setNetworkInfo(info);
-      } catch (error) {
-        console.warn('Error loading network info:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadNetworkInfo();
+  const refresh = useCallback(async (): Promise<NetworkInfo | null> => {
+    try {
+      const service = createSpeedTestService();
+      const info = await service.getNetworkInfo();
+      setNetworkInfo(info);
+      return info;
+    } catch (error) {
+      console.warn('Error loading network info:', error);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
   }, []);
 
-  return { networkInfo, isLoading };
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { networkInfo, isLoading, refresh };
 };
 
 /**
- * Hook para estadísticas del historial
+ * Hook para estadísticas de todo el historial guardado, no solo de la página
+ * cargada; `refreshKey` fuerza la relectura (p. ej. testHistory, que cambia
+ * al guardar, borrar o recortar resultados)
  */
-export const useSpeedTestStats = (history: SpeedTestResult[]) => {
-  const stats = useMemo(() => {
-    if (history.length === 0) {
-      return {
-        averageDownload: 0,
-        averageUpload: 0,
-        averagePing: 0,
-        totalTests: 0,
-        lastTestDate: null,
-      };
-    }
+export const useSpeedTestStats = (
+  queryHistory: (query: HistoryQuery) => Promise<SpeedTestResult[]>,
+  refreshKey?: unknown,
+) => {
+  const [stats, setStats] = useState<HistoryStats>(() => summarizeHistory([]));
+
+  useEffect(() => {
+    let cancelled = false;
 
-    const totalDownload = history.reduce((sum, test) => sum + test.downloadSpeed, 0);
-    const totalUpload = history.reduce((sum, test) => sum + test.uploadSpeed, 0);
-    const totalPing = history.reduce((sum, test) => sum + test.ping, 0);
+    queryHistory({})
+      .then(results => {
+        if (!cancelled) setStats(summarizeHistory(results));
+      })
+      .catch(err => console.warn('Error loading history statistics:', err));
 
-    return {
-      averageDownload: Math.round((totalDownload / history.length) * 100) / 100,
-      averageUpload: Math.round((totalUpload / history.length) * 100) / 100,
-      averagePing: Math.round(totalPing / history.length),
-      totalTests: history.length,
-      lastTestDate: history[0]?.timestamp || null,
+    return () => {
+      cancelled = true;
     };
-  }, [history]);
+  }, [queryHistory, refreshKey]);
 
   return stats;
 };
 
+/**
+ * Hook para los servidores y operadores que aparecen en todo el historial
+ * guardado, que se ofrecen como filtro; `refreshKey` como en useSpeedTestStats
+ */
+export const useHistoryFilterOptions = (
+  queryHistory: (query: HistoryQuery) => Promise<SpeedTestResult[]>,
+  refreshKey?: unknown,
+) => {
+  const [options, setOptions] = useState<HistoryFilterOptions>(() => collectFilterOptions([]));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    queryHistory({})
+      .then(results => {
+        if (!cancelled) setOptions(collectFilterOptions(results));
+      })
+      .catch(err => console.warn('Error loading history filter options:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryHistory, refreshKey]);
+
+  return options;
+};
+
+/**
+ * Hook para la unidad de velocidad elegida por el usuario (persistida)
+ */
+export const useSpeedUnit = () => {
+  const [unit, setUnitState] = useState<SpeedUnit>('Mbps');
+
+  useEffect(() => {
+    AsyncStorage.getItem(SPEED_UNIT_KEY)
+      .then(stored => {
+        if (stored && SPEED_UNITS.includes(stored as SpeedUnit)) {
+          setUnitState(stored as SpeedUnit);
+        }
+      })
+      .catch(err => console.warn('Error loading speed unit:', err));
+  }, []);
+
+  const setUnit = useCallback((next: SpeedUnit) => {
+    setUnitState(next);
+    AsyncStorage.setItem(SPEED_UNIT_KEY, next).catch(err =>
+      console.warn('Error saving speed unit:', err),
+    );
+  }, []);
+
+  return { unit, setUnit };
+};
+
+/**
+ * Hook para el consumo de datos del mes; `refreshKey` fuerza la relectura
+ * (p. ej. el id del último test, que cambia al terminar uno)
+ */
+export const useDataUsage = (refreshKey?: unknown) => {
+  const [usage, setUsage] = useState<MonthlyDataUsage | null>(null);
+
+  useEffect(() => {
+    createDataUsageStore()
+      .getMonthlyUsage()
+      .then(setUsage)
+      .catch(err => console.warn('Error loading data usage:', err));
+  }, [refreshKey]);
+
+  return usage;
+};
+
 /**
  * Hook para auto-retry en caso de errores de red
  */
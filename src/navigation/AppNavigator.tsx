@@ -0,0 +1,285 @@
+/**
+ * AppNavigator - Pestañas de primer nivel con una pila de detalle encima
+ * Sin librería de navegación: el estado es la pestaña activa más las rutas
+ * apiladas. Atiende los deep links (arranque en frío y con la app abierta)
+ * y el botón atrás de Android: primero desapila, después vuelve a Test y,
+ * desde Test, deja que el sistema cierre la app.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  BackHandler,
+  Linking,
+} from 'react-native';
+import HomeScreen from '../screens/HomeScreen';
+import HistoryScreen from '../screens/HistoryScreen';
+import StatisticsScreen from '../screens/StatisticsScreen';
+import ServersScreen from '../screens/ServersScreen';
+import SettingsScreen from '../screens/SettingsScreen';
+import ResultDetailScreen from '../screens/ResultDetailScreen';
+import { useSpeedTestContext } from '../hooks/SpeedTestContext';
+import { useSpeedUnit } from '../hooks/useSpeedTest';
+import { SpeedTestResult } from '../types/SpeedTest';
+import { NavigationContext, NavigationContextValue, useNavigation } from './NavigationContext';
+import { ResultRoute, Route, TabName, TABS, TestRoute, parseDeepLink } from './routes';
+
+// ===============================
+// CONFIGURACIÓN DE COLORES Y ESTILOS
+// ===============================
+
+const COLORS = {
+  primary: '#2196F3',
+  background: '#F5F5F5',
+  surface: '#FFFFFF',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+interface NavigationState {
+  tab: TabName;
+  stack: ResultRoute[]; // rutas apiladas sobre la pestaña activa
+  testRoute: TestRoute; // parámetros de un solo uso: se descartan al salir de Test
+}
+
+const INITIAL_STATE: NavigationState = {
+  tab: 'test',
+  stack: [],
+  testRoute: { name: 'test' },
+};
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+interface AppNavigatorProps {
+  initialTestRoute?: TestRoute; // p. ej. autoStart al abrir la app; un deep link lo sustituye
+}
+
+export const AppNavigator: React.FC<AppNavigatorProps> = ({ initialTestRoute }) => {
+  const [state, setState] = useState<NavigationState>(() =>
+    initialTestRoute ? { ...INITIAL_STATE, testRoute: initialTestRoute } : INITIAL_STATE
+  );
+
+  // goBack necesita el estado vigente para responder a BackHandler al instante
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // HomeScreen se vuelve a montar al regresar; si conservara autoStart, repetiría el test
+  const navigate = useCallback((route: Route) => {
+    setState(current => {
+      switch (route.name) {
+        case 'result':
+          return { ...current, stack: [...current.stack, route], testRoute: INITIAL_STATE.testRoute };
+        case 'test':
+          return { tab: 'test', stack: [], testRoute: route };
+        default:
+          return { tab: route.name, stack: [], testRoute: INITIAL_STATE.testRoute };
+      }
+    });
+  }, []);
+
+  const goBack = useCallback((): boolean => {
+    const { tab, stack } = stateRef.current;
+    if (stack.length === 0 && tab === 'test') return false;
+
+    setState(current =>
+      current.stack.length > 0
+        ? { ...current, stack: current.stack.slice(0, -1) }
+        : { ...current, tab: 'test' }
+    );
+    return true;
+  }, []);
+
+  // ===============================
+  // EFECTOS DE SISTEMA
+  // ===============================
+
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', goBack);
+    return () => subscription.remove();
+  }, [goBack]);
+
+  useEffect(() => {
+    const openUrl = (url: string | null) => {
+      const route = url ? parseDeepLink(url) : null;
+      if (route) navigate(route);
+    };
+
+    Linking.getInitialURL()
+      .then(openUrl)
+      .catch(error => console.warn('Error reading initial URL:', error));
+    const subscription = Linking.addEventListener('url', ({ url }) => openUrl(url));
+
+    return () => subscription.remove();
+  }, [navigate]);
+
+  // ===============================
+  // RENDER DE COMPONENTES
+  // ===============================
+
+  const topRoute = state.stack[state.stack.length - 1];
+
+  const navigation = useMemo<NavigationContextValue>(() => {
+    const { tab, stack, testRoute } = state;
+    const route: Route = stack[stack.length - 1] ?? (tab === 'test' ? testRoute : { name: tab });
+    return { route, navigate, goBack };
+  }, [state, navigate, goBack]);
+
+  const renderScreen = () => {
+    if (topRoute) {
+      return <ResultRouteScreen key={topRoute.resultId} resultId={topRoute.resultId} />;
+    }
+
+    switch (state.tab) {
+      case 'test':
+        return <HomeScreen route={state.testRoute} />;
+      case 'history':
+        return <HistoryScreen />;
+      case 'statistics':
+        return <StatisticsScreen />;
+      case 'servers':
+        return <ServersScreen />;
+      case 'settings':
+        return <SettingsScreen />;
+    }
+  };
+
+  const renderTabBar = () => (
+    <SafeAreaView style={styles.tabBar}>
+      <View style={styles.tabRow}>
+        {TABS.map(tab => (
+          <TouchableOpacity
+            key={tab.name}
+            style={styles.tab}
+            onPress={() => navigate({ name: tab.name } as Route)}
+          >
+            <Text style={[styles.tabLabel, tab.name === state.tab && styles.tabLabelActive]}>
+              {tab.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </SafeAreaView>
+  );
+
+  // ===============================
+  // RENDER PRINCIPAL
+  // ===============================
+
+  return (
+    <NavigationContext.Provider value={navigation}>
+      <View style={styles.container}>
+        <View style={styles.screen}>{renderScreen()}</View>
+        {!topRoute && renderTabBar()}
+      </View>
+    </NavigationContext.Provider>
+  );
+};
+
+// ===============================
+// RUTA DE DETALLE
+// ===============================
+
+/**
+ * Busca el resultado aunque no esté entre los cargados (deep link a un test
+ * antiguo); si ya no existe, avisa en lugar de mostrar una pantalla vacía
+ */
+const ResultRouteScreen: React.FC<{ resultId: string }> = ({ resultId }) => {
+  const { findResult, deleteResult } = useSpeedTestContext();
+  const { goBack } = useNavigation();
+  const { unit } = useSpeedUnit();
+  const [result, setResult] = useState<SpeedTestResult | null | undefined>(undefined);
+  const requestedIdRef = useRef<string | null>(null);
+
+  // Una búsqueda por resultado: findResult cambia con el historial, y
+  // borrar el resultado ya nos saca de la ruta
+  useEffect(() => {
+    if (requestedIdRef.current === resultId) return;
+    requestedIdRef.current = resultId;
+    findResult(resultId).then(setResult);
+  }, [resultId, findResult]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    await deleteResult(id);
+    goBack();
+  }, [deleteResult, goBack]);
+
+  if (!result) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <TouchableOpacity style={styles.backButton} onPress={goBack}>
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.messageText}>
+          {result === undefined ? 'Loading result…' : 'This test result is no longer available.'}
+        </Text>
+      </SafeAreaView>
+    );
+  }
+
+  return <ResultDetailScreen result={result} unit={unit} onClose={goBack} onDelete={handleDelete} />;
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+
+  screen: {
+    flex: 1,
+  },
+
+  tabBar: {
+    backgroundColor: COLORS.surface,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+
+  tabRow: {
+    flexDirection: 'row',
+  },
+
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+
+  tabLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+
+  tabLabelActive: {
+    color: COLORS.primary,
+    fontWeight: 'bold',
+  },
+
+  backButton: {
+    padding: 16,
+  },
+
+  backButtonText: {
+    fontSize: 15,
+    color: COLORS.primary,
+  },
+
+  messageText: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
+
+export default AppNavigator;
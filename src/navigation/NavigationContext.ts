@@ -0,0 +1,24 @@
+/**
+ * NavigationContext - Acceso a la navegación desde cualquier pantalla
+ * Lo provee AppNavigator; las pantallas no conocen cómo se apilan las rutas
+ */
+
+import { createContext, useContext } from 'react';
+import { Route } from './routes';
+
+export interface NavigationContextValue {
+  route: Route; // ruta visible
+  navigate: (route: Route) => void;
+  /** false si no queda nada a lo que volver (el sistema cierra la app) */
+  goBack: () => boolean;
+}
+
+export const NavigationContext = createContext<NavigationContextValue | null>(null);
+
+export const useNavigation = (): NavigationContextValue => {
+  const value = useContext(NavigationContext);
+  if (!value) {
+    throw new Error('useNavigation must be used within an AppNavigator');
+  }
+  return value;
+};
@@ -0,0 +1,81 @@
+/**
+ * Rutas de la app y deep links
+ * Las pestañas son destinos de primer nivel; 'result' se apila encima de la
+ * pestaña activa. Los deep links usan el esquema speedtest://, registrado en
+ * AndroidManifest.xml e Info.plist:
+ *
+ *   speedtest://test?plan=quick&start=true   abre Test con un plan (y lo lanza)
+ *   speedtest://result/<id>                  abre el detalle de un resultado
+ *   speedtest://history | statistics | servers | settings
+ */
+
+import { TEST_PLAN_PRESETS } from '../types/SpeedTest';
+
+export const DEEP_LINK_SCHEME = 'speedtest';
+
+export type TabName = 'test' | 'history' | 'statistics' | 'servers' | 'settings';
+
+export const TABS: Array<{ name: TabName; label: string }> = [
+  { name: 'test', label: 'Test' },
+  { name: 'history', label: 'History' },
+  { name: 'statistics', label: 'Statistics' },
+  { name: 'servers', label: 'Servers' },
+  { name: 'settings', label: 'Settings' },
+];
+
+export interface TestRoute {
+  name: 'test';
+  planId?: string; // id de TEST_PLAN_PRESETS
+  autoStart?: boolean;
+}
+
+export interface ResultRoute {
+  name: 'result';
+  resultId: string;
+}
+
+export type Route = TestRoute | ResultRoute | { name: Exclude<TabName, 'test'> };
+
+// Lo que no es un enlace de la app, no se reconoce o está mal codificado devuelve null
+export const parseDeepLink = (url: string): Route | null => {
+  const match = new RegExp(`^${DEEP_LINK_SCHEME}://([^?#]*)(?:\\?([^#]*))?`, 'i').exec(url.trim());
+  if (!match) return null;
+
+  let name: string | undefined;
+  let rest: string[];
+  let params: Record<string, string>;
+  try {
+    [name, ...rest] = match[1].split('/').filter(Boolean).map(decodeURIComponent);
+    params = parseQuery(match[2] ?? '');
+  } catch (error) {
+    return null; // decodeURIComponent con secuencias % inválidas
+  }
+
+  switch (name) {
+    case 'test': {
+      const planId = TEST_PLAN_PRESETS.some(plan => plan.id === params.plan) ? params.plan : undefined;
+      return { name: 'test', planId, autoStart: params.start === 'true' || params.start === '1' };
+    }
+    case 'result':
+      return rest[0] ? { name: 'result', resultId: rest[0] } : null;
+    case 'history':
+    case 'statistics':
+    case 'servers':
+    case 'settings':
+      return { name };
+    default:
+      return null;
+  }
+};
+
+// URLSearchParams no está completo en React Native
+const parseQuery = (query: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  query.split('&').filter(Boolean).forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  });
+
+  return params;
+};
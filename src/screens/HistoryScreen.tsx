@@ -0,0 +1,362 @@
+/**
+ * HistoryScreen - Historial de tests con filtros, orden y detalle
+ * Los filtros se consultan al repositorio sobre todo lo guardado. Del más
+ * reciente al más antiguo se pagina al llegar al final; cualquier otro orden
+ * carga antes todos los resultados que coinciden
+ * Principio SOLID: Composición - Reutiliza TestResultCard; el detalle es otra ruta
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  ListRenderItem,
+} from 'react-native';
+import TestResultCard from '../components/speedtest/TestResultCard';
+import { useSpeedTestContext } from '../hooks/SpeedTestContext';
+import { useNavigation } from '../navigation/NavigationContext';
+import { useHistoryFilterOptions, useSpeedUnit } from '../hooks/useSpeedTest';
+import { NetworkInfo, SpeedTestResult, SPEED_TEST_CONSTANTS } from '../types/SpeedTest';
+import {
+  DEFAULT_HISTORY_SORT,
+  HistoryFilter,
+  HistorySort,
+  HistorySortKey,
+  needsFullHistory,
+  sortHistory,
+  toHistoryQuery,
+} from '../utils/history';
+
+// ===============================
+// CONFIGURACIÓN DE COLORES Y OPCIONES
+// ===============================
+
+const COLORS = {
+  primary: '#2196F3',
+  background: '#F5F5F5',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+type DateRange = 'all' | 'day' | 'week' | 'month';
+
+interface ChipOption<T> {
+  value: T;
+  label: string;
+}
+
+const NETWORK_OPTIONS: ChipOption<NetworkInfo['type'] | undefined>[] = [
+  { value: undefined, label: 'All networks' },
+  { value: 'wifi', label: 'Wi-Fi' },
+  { value: 'cellular', label: 'Cellular' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+const DATE_RANGE_OPTIONS: ChipOption<DateRange>[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'day', label: '24 hours' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+];
+
+const DATE_RANGE_DAYS: Record<Exclude<DateRange, 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+const SORT_OPTIONS: ChipOption<HistorySortKey>[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'download', label: 'Download' },
+  { value: 'upload', label: 'Upload' },
+  { value: 'ping', label: 'Ping' },
+  { value: 'jitter', label: 'Jitter' },
+  { value: 'packetLoss', label: 'Loss' },
+];
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const HistoryScreen: React.FC = () => {
+  // Hooks
+  const { testHistory, historyCount, queryHistory } = useSpeedTestContext();
+  const { navigate } = useNavigation();
+  const { unit } = useSpeedUnit();
+
+  // Estado local
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [sort, setSort] = useState<HistorySort>(DEFAULT_HISTORY_SORT);
+  const [results, setResults] = useState<SpeedTestResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const filterOptions = useHistoryFilterOptions(queryHistory, testHistory);
+  const loadAll = needsFullHistory(sort);
+
+  const query = useMemo(() => {
+    const from =
+      dateRange === 'all' ? undefined : new Date(Date.now() - DATE_RANGE_DAYS[dateRange] * 86400000);
+    return toHistoryQuery({ ...filter, from });
+  }, [filter, dateRange]);
+
+  // Se vuelve a consultar al cambiar los filtros o lo guardado (testHistory
+  // se recarga tras cada test, borrado o cambio de retención)
+  useEffect(() => {
+    let cancelled = false;
+    const limit = loadAll ? undefined : SPEED_TEST_CONSTANTS.HISTORY_PAGE_SIZE;
+
+    queryHistory({ ...query, limit })
+      .then(firstPage => {
+        if (cancelled) return;
+        setResults(firstPage);
+        setHasMore(limit !== undefined && firstPage.length === limit);
+      })
+      .catch(err => console.warn('Error querying test history:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryHistory, query, loadAll, testHistory]);
+
+  const visibleResults = useMemo(
+    () => (loadAll ? sortHistory(results, sort) : results),
+    [results, sort, loadAll],
+  );
+
+  // ===============================
+  // FUNCIONES DE EVENTOS
+  // ===============================
+
+  const handleEndReached = useCallback(async () => {
+    if (!hasMore || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const nextPage = await queryHistory({
+        ...query,
+        offset: results.length,
+        limit: SPEED_TEST_CONSTANTS.HISTORY_PAGE_SIZE,
+      });
+      setResults(current => [...current, ...nextPage]);
+      setHasMore(nextPage.length === SPEED_TEST_CONSTANTS.HISTORY_PAGE_SIZE);
+    } catch (err) {
+      console.warn('Error loading more test history:', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [hasMore, isLoadingMore, queryHistory, query, results.length]);
+
+  // Pulsar el orden activo invierte el sentido
+  const handleSortPress = useCallback((key: HistorySortKey) => {
+    setSort(current =>
+      current.key === key
+        ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: key === 'date' || key === 'download' || key === 'upload' ? 'desc' : 'asc' }
+    );
+  }, []);
+
+  // ===============================
+  // RENDER DE COMPONENTES
+  // ===============================
+
+  const renderChips = <T,>(
+    options: ChipOption<T>[],
+    isActive: (value: T) => boolean,
+    onSelect: (value: T) => void,
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.label}
+          style={[styles.chip, isActive(option.value) && styles.chipActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.chipText, isActive(option.value) && styles.chipTextActive]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      {renderChips(
+        NETWORK_OPTIONS,
+        value => filter.networkType === value,
+        networkType => setFilter(current => ({ ...current, networkType })),
+      )}
+
+      {renderChips(DATE_RANGE_OPTIONS, value => dateRange === value, setDateRange)}
+
+      {filterOptions.servers.length > 1 &&
+        renderChips(
+          [
+            { value: undefined, label: 'All servers' },
+            ...filterOptions.servers.map(server => ({ value: server.id, label: server.name })),
+          ],
+          value => filter.serverId === value,
+          serverId => setFilter(current => ({ ...current, serverId })),
+        )}
+
+      {filterOptions.carriers.length > 0 &&
+        renderChips(
+          [
+            { value: undefined, label: 'All carriers' },
+            ...filterOptions.carriers.map(carrier => ({ value: carrier, label: carrier })),
+          ],
+          value => filter.carrier === value,
+          carrier => setFilter(current => ({ ...current, carrier })),
+        )}
+
+      {renderChips(
+        SORT_OPTIONS.map(option => ({
+          ...option,
+          label:
+            option.value === sort.key
+              ? `${option.label} ${sort.direction === 'asc' ? '↑' : '↓'}`
+              : option.label,
+        })),
+        value => sort.key === value,
+        handleSortPress,
+      )}
+    </View>
+  );
+
+  const renderItem: ListRenderItem<SpeedTestResult> = ({ item }) => (
+    <TestResultCard
+      result={item}
+      unit={unit}
+      showDetails
+      onPress={() => navigate({ name: 'result', resultId: item.id })}
+    />
+  );
+
+  const renderEmpty = () => (
+    <Text style={styles.emptyText}>
+      {historyCount === 0 ? 'No tests yet.' : 'No tests match these filters.'}
+    </Text>
+  );
+
+  // ===============================
+  // RENDER PRINCIPAL
+  // ===============================
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>History</Text>
+        <Text style={styles.headerSubtitle}>
+          {visibleResults.length} shown · {historyCount} saved
+        </Text>
+      </View>
+
+      <FlatList
+        data={visibleResults}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        ListHeaderComponent={renderFilters()}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          hasMore ? <Text style={styles.footerText}>Loading more tests…</Text> : null
+        }
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+
+  header: {
+    padding: 24,
+    paddingBottom: 12,
+    alignItems: 'center',
+  },
+
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 4,
+  },
+
+  headerSubtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+
+  filters: {
+    marginHorizontal: 12,
+    marginBottom: 12,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    margin: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+
+  chipActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+
+  chipTextActive: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+
+  listContent: {
+    paddingBottom: 32,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+
+  footerText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
+
+export default HistoryScreen;
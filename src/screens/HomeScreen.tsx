@@ -4,7 +4,7 @@
  * Principio SOLID: Composición sobre herencia
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,8 +17,23 @@ import {
   RefreshControl,
 } from 'react-native';
 import SpeedMeter from '../components/speedtest/SpeedMeter';
-import { useSpeedTest, useNetworkInfo, useSpeedTestStats } from '../hooks/useSpeedTest';
-import { SpeedTestState } from '../types/SpeedTest';
+import SpeedChart from '../components/speedtest/SpeedChart';
+import { useSpeedTestContext } from '../hooks/SpeedTestContext';
+import { useNetworkInfo, useSpeedUnit, useDataUsage } from '../hooks/useSpeedTest';
+import { TestRoute } from '../navigation/routes';
+import {
+  ConnectingStep,
+  SpeedTestState,
+  SPEED_UNITS,
+  DEFAULT_TEST_PLAN,
+  TEST_PLAN_PRESETS,
+  resultIncludesPhase,
+  SPEED_TEST_CONSTANTS,
+  TestPlan,
+} from '../types/SpeedTest';
+import { formatBytes, formatSpeed } from '../utils/units';
+import { describeError } from '../config/errorMessages';
+import { toSpeedTestConfig } from '../services/SettingsStore';
 
 // ===============================
 // CONFIGURACIÓN DE COLORES Y ESTILOS
@@ -37,37 +52,53 @@ const COLORS = {
   border: '#E0E0E0',
 };
 
+const CONNECTING_MESSAGES: Record<ConnectingStep, string> = {
+  'network-check': 'Checking network...',
+  'server-discovery': 'Finding the best server...',
+  handshake: 'Connecting to server...',
+  'warm-up': 'Warming up connection...',
+};
+
 // ===============================
 // COMPONENTE PRINCIPAL
 // ===============================
 
-export const HomeScreen: React.FC = () => {
+interface HomeScreenProps {
+  route?: TestRoute; // plan y arranque pedidos por un deep link
+}
+
+export const HomeScreen: React.FC<HomeScreenProps> = ({ route }) => {
   // Hooks
   const {
     currentTest,
     progress,
     error,
     isLoading,
-    testHistory,
     startTest,
     stopTest,
     retryTest,
-    clearHistory,
-  } = useSpeedTest();
+    settings,
+  } = useSpeedTestContext();
 
-  const { networkInfo } = useNetworkInfo();
-  const stats = useSpeedTestStats(testHistory);
+  const { networkInfo, refresh: refreshNetworkInfo } = useNetworkInfo();
+  const { unit, setUnit } = useSpeedUnit();
+  const dataUsage = useDataUsage(currentTest?.id);
+  const errorDescription = error ? describeError(error.type) : null;
 
   // Estado local
   const [refreshing, setRefreshing] = useState(false);
+  const [selectedPlanId, setSelectedPlanId] = useState(DEFAULT_TEST_PLAN.id);
+  const handledRouteRef = useRef<TestRoute | null>(null);
+  const lastPlanRef = useRef<TestPlan>(DEFAULT_TEST_PLAN);
 
   // ===============================
   // FUNCIONES DE EVENTOS
   // ===============================
 
-  const handleStartTest = useCallback(async () => {
+  const runTest = useCallback(async (plan: TestPlan) => {
+    lastPlanRef.current = plan;
     try {
-      await startTest();
+      await startTest({ plan });
     } catch (err) {
       Alert.alert(
         'Test Failed',
@@ -77,39 +108,80 @@ export const HomeScreen: React.FC = () => {
     }
   }, [startTest]);
 
-  const handleStopTest = useCallback(() => {
+  // Todo arranque, también los reintentos, pasa por aquí para no saltarse la
+  // confirmación. La red se vuelve a leer: puede haber cambiado desde el montaje
+  const confirmDataUse = useCallback(async (plan: TestPlan, run: () => void) => {
+    const transfersData = plan.phases.some(p => p.phase !== 'ping');
+    if (!transfersData) {
+      run();
+      return;
+    }
+
+    const currentNetwork = (await refreshNetworkInfo()) ?? networkInfo;
+    if (currentNetwork?.type !== 'cellular') {
+      run();
+      return;
+    }
+
+    // En datos móviles, confirmar antes de gastar hasta el tope por test
+    const dataCapBytes =
+      toSpeedTestConfig(settings).cellularDataCapBytes ?? SPEED_TEST_CONSTANTS.CELLULAR_DATA_CAP_BYTES;
+    const monthUsage = dataUsage ? formatBytes(dataUsage.cellularBytes) : 'unknown';
     Alert.alert(
-      'Stop Test',
-      'Are you sure you want to stop the current test?',
+      'Use Mobile Data?',
+      `This test can use up to ${formatBytes(dataCapBytes)} ` +
+        `of mobile data. Tests have used ${monthUsage} on mobile data this month.`,
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Stop', style: 'destructive', onPress: stopTest },
+        { text: 'Run Test', onPress: run },
       ]
     );
-  }, [stopTest]);
+  }, [networkInfo, refreshNetworkInfo, dataUsage, settings]);
 
-  const handleRetryTest = useCallback(async () => {
-    try {
-      await retryTest();
-    } catch (err) {
-      Alert.alert(
-        'Retry Failed',
-        'Unable to retry the test. Please try again later.',
-        [{ text: 'OK' }]
-      );
+  const confirmAndRunTest = useCallback((plan: TestPlan) => {
+    confirmDataUse(plan, () => runTest(plan));
+  }, [confirmDataUse, runTest]);
+
+  const handleStartTest = useCallback(() => {
+    confirmAndRunTest(TEST_PLAN_PRESETS.find(p => p.id === selectedPlanId) ?? DEFAULT_TEST_PLAN);
+  }, [confirmAndRunTest, selectedPlanId]);
+
+  // Deep link: se espera a conocer la red para no saltarse la confirmación en datos móviles
+  useEffect(() => {
+    if (!route || handledRouteRef.current === route || !networkInfo) return;
+    handledRouteRef.current = route;
+
+    const plan = TEST_PLAN_PRESETS.find(p => p.id === route.planId);
+    if (plan) setSelectedPlanId(plan.id);
+    if (route.autoStart && networkInfo.isConnected) {
+      confirmAndRunTest(plan ?? DEFAULT_TEST_PLAN);
     }
-  }, [retryTest]);
+  }, [route, networkInfo, confirmAndRunTest]);
 
-  const handleClearHistory = useCallback(() => {
+  const handleStopTest = useCallback(() => {
     Alert.alert(
-      'Clear History',
-      'Are you sure you want to clear all test history? This action cannot be undone.',
+      'Stop Test',
+      'Are you sure you want to stop the current test?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Clear', style: 'destructive', onPress: clearHistory },
+        { text: 'Stop', style: 'destructive', onPress: stopTest },
       ]
     );
-  }, [clearHistory]);
+  }, [stopTest]);
+
+  const handleRetryTest = useCallback(() => {
+    confirmDataUse(lastPlanRef.current, async () => {
+      try {
+        await retryTest();
+      } catch (err) {
+        Alert.alert(
+          'Retry Failed',
+          'Unable to retry the test. Please try again later.',
+          [{ text: 'OK' }]
+        );
+      }
+    });
+  }, [confirmDataUse, retryTest]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -121,10 +193,10 @@ export const HomeScreen: React.FC = () => {
   // FUNCIONES UTILITARIAS
   // ===============================
 
-  const getStateMessage = (state: SpeedTestState): string => {
+  const getStateMessage = (state: SpeedTestState, step?: ConnectingStep): string => {
     switch (state) {
       case 'connecting':
-        return 'Connecting to server...';
+        return step ? CONNECTING_MESSAGES[step] : 'Connecting to server...';
       case 'testing-ping':
         return 'Testing ping...';
       case 'testing-download':
@@ -133,6 +205,8 @@ export const HomeScreen: React.FC = () => {
         return 'Testing upload speed...';
       case 'completed':
         return 'Test completed!';
+      case 'cancelled':
+        return 'Test cancelled';
       case 'error':
         return 'Test failed';
       default:
@@ -140,6 +214,18 @@ export const HomeScreen: React.FC = () => {
     }
   };
 
+  const formatOptionalMs = (value: number | null): string => {
+    return value === null ? '–' : value.toString();
+  };
+
+  const formatTimeRemaining = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return minutes > 0
+      ? `~${minutes}:${rest.toString().padStart(2, '0')} remaining`
+      : `~${rest}s remaining`;
+  };
+
   const getNetworkStatusColor = (): string => {
     if (!networkInfo) return COLORS.textSecondary;
     if (!networkInfo.isConnected) return COLORS.error;
@@ -206,12 +292,53 @@ export const HomeScreen: React.FC = () => {
           maxSpeed={100} // Dynamic max based on test history
           testType={progress.state === 'testing-upload' ? 'upload' : 'download'}
           isActive={isTestActive}
+          unit={unit}
           size="large"
         />
       </View>
     );
   };
 
+  const renderUnitSelector = () => (
+    <View style={styles.unitSelector}>
+      {SPEED_UNITS.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.unitOption, option === unit && styles.unitOptionActive]}
+          onPress={() => setUnit(option)}
+        >
+          <Text
+            style={[styles.unitOptionText, option === unit && styles.unitOptionTextActive]}
+          >
+            {option}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderPlanSelector = () => (
+    <View style={[styles.unitSelector, styles.planSelector]}>
+      {TEST_PLAN_PRESETS.map(plan => (
+        <TouchableOpacity
+          key={plan.id}
+          style={[styles.unitOption, plan.id === selectedPlanId && styles.unitOptionActive]}
+          onPress={() => setSelectedPlanId(plan.id)}
+          disabled={isLoading}
+        >
+          <Text
+            style={[
+              styles.unitOptionText,
+              plan.id === selectedPlanId && styles.unitOptionTextActive,
+            ]}
+          >
+            {plan.name}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const renderTestResults = () => {
     if (!currentTest && progress.state !== 'completed') return null;
 
@@ -221,60 +348,113 @@ export const HomeScreen: React.FC = () => {
     return (
       <View style={styles.resultsContainer}>
         <Text style={styles.resultsTitle}>Last Test Results</Text>
+        {result.testPlan && <Text style={styles.planName}>{result.testPlan.name}</Text>}
+
+        {result.warnings?.includes('data-cap-reached') && (
+          <Text style={styles.warningText}>
+            The test stopped early at the mobile data cap; skipped phases show as –.
+          </Text>
+        )}
+
+        {result.warnings?.includes('transparent-proxy') && (
+          <Text style={styles.warningText}>
+            A proxy on this network may be caching or reshaping traffic; results may not reflect
+            your real connection.
+          </Text>
+        )}
         
         <View style={styles.resultsGrid}>
           <View style={styles.resultItem}>
-            <Text style={styles.resultValue}>{result.downloadSpeed.toFixed(1)}</Text>
-            <Text style={styles.resultLabel}>Download (Mbps)</Text>
+            <Text style={styles.resultValue}>
+              {resultIncludesPhase(result, 'download') ? formatSpeed(result.downloadSpeed, unit) : '–'}
+            </Text>
+            <Text style={styles.resultLabel}>Download ({unit})</Text>
           </View>
           
           <View style={styles.resultItem}>
-            <Text style={styles.resultValue}>{result.uploadSpeed.toFixed(1)}</Text>
-            <Text style={styles.resultLabel}>Upload (Mbps)</Text>
+            <Text style={styles.resultValue}>
+              {resultIncludesPhase(result, 'upload') ? formatSpeed(result.uploadSpeed, unit) : '–'}
+            </Text>
+            <Text style={styles.resultLabel}>Upload ({unit})</Text>
           </View>
           
           <View style={styles.resultItem}>
-            <Text style={styles.resultValue}>{result.ping}</Text>
+            <Text style={styles.resultValue}>
+              {resultIncludesPhase(result, 'ping') ? result.ping : '–'}
+            </Text>
             <Text style={styles.resultLabel}>Ping (ms)</Text>
           </View>
           
           <View style={styles.resultItem}>
-            <Text style={styles.resultValue}>{result.jitter}</Text>
+            <Text style={styles.resultValue}>
+              {resultIncludesPhase(result, 'ping') ? result.jitter : '–'}
+            </Text>
             <Text style={styles.resultLabel}>Jitter (ms)</Text>
           </View>
+
+          <View style={styles.resultItem}>
+            <Text style={styles.resultValue}>
+              {resultIncludesPhase(result, 'ping') ? result.packetLoss : '–'}
+            </Text>
+            <Text style={styles.resultLabel}>
+              {result.lossMethod === 'packet' ? 'Packet Loss (%)' : 'Request Failures (%)'}
+            </Text>
+          </View>
+
+          {result.latencyStats && (
+            <View style={styles.resultItem}>
+              <Text style={styles.resultValue}>
+                {result.latencyStats.min} / {Math.round(result.latencyStats.p95)}
+              </Text>
+              <Text style={styles.resultLabel}>Ping Min / p95 (ms)</Text>
+            </View>
+          )}
+
+          {result.latency && (
+            <View style={styles.resultItem}>
+              <Text style={styles.resultValue}>
+                {formatOptionalMs(result.latency.download)} / {formatOptionalMs(result.latency.upload)}
+              </Text>
+              <Text style={styles.resultLabel}>Loaded Ping ↓/↑ (ms)</Text>
+            </View>
+          )}
+
+          {result.connectionTimings && (
+            <View style={styles.resultItem}>
+              <Text style={styles.resultValue}>
+                {formatOptionalMs(result.connectionTimings.connectMs)} / {formatOptionalMs(result.connectionTimings.ttfbMs)}
+              </Text>
+              <Text style={styles.resultLabel}>Connect (DNS+TCP+TLS) / TTFB (ms)</Text>
+            </View>
+          )}
+
+          {result.bytesDownloaded !== undefined && (
+            <View style={styles.resultItem}>
+              <Text style={styles.resultValue}>
+                {formatBytes(result.bytesDownloaded + (result.bytesUploaded ?? 0))}
+              </Text>
+              <Text style={styles.resultLabel}>Data Used</Text>
+            </View>
+          )}
+
+          {result.bufferbloatGrade && (
+            <View style={styles.resultItem}>
+              <Text style={styles.resultValue}>{result.bufferbloatGrade}</Text>
+              <Text style={styles.resultLabel}>Bufferbloat</Text>
+            </View>
+          )}
         </View>
+
+        <SpeedChart
+          downloadSamples={result.downloadSamples}
+          uploadSamples={result.uploadSamples}
+          pingSamples={result.pingSamples}
+          unit={unit}
+        />
       </View>
     );
   };
 
-  const renderStats = () => (
-    <View style={styles.statsContainer}>
-      <Text style={styles.statsTitle}>Statistics</Text>
-      
-      <View style={styles.statsGrid}>
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.totalTests}</Text>
-          <Text style={styles.statLabel}>Total Tests</Text>
-        </View>
-        
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.averageDownload.toFixed(1)}</Text>
-          <Text style={styles.statLabel}>Avg Download</Text>
-        </View>
-        
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.averageUpload.toFixed(1)}</Text>
-          <Text style={styles.statLabel}>Avg Upload</Text>
-        </View>
-        
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.averagePing}</Text>
-          <Text style={styles.statLabel}>Avg Ping</Text>
-        </View>
-      </View>
-    </View>
-  );
-
   const renderControls = () => (
     <View style={styles.controlsContainer}>
       {/* Botón principal */}
@@ -304,33 +484,25 @@ export const HomeScreen: React.FC = () => {
             />
           </View>
           <Text style={styles.progressText}>
-            {getStateMessage(progress.state)} ({Math.round(progress.progress)}%)
+            {getStateMessage(progress.state, progress.step)} ({Math.round(progress.progress)}%)
           </Text>
+          {progress.estimatedTimeRemaining !== undefined && progress.estimatedTimeRemaining > 0 && (
+            <Text style={styles.countdownText}>
+              {formatTimeRemaining(progress.estimatedTimeRemaining)}
+            </Text>
+          )}
         </View>
       )}
 
       {/* Error message */}
-      {error && (
+      {error && errorDescription && (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error.message}</Text>
+          <Text style={styles.errorTitle}>{errorDescription.title}</Text>
+          <Text style={styles.errorText}>{errorDescription.explanation}</Text>
+          <Text style={styles.errorSuggestion}>{errorDescription.suggestion}</Text>
+          <Text style={styles.errorDetail}>{error.message}</Text>
         </View>
       )}
-
-      {/* Secondary buttons */}
-      <View style={styles.secondaryButtons}>
-        <TouchableOpacity
-          style={styles.secondaryButton}
-          onPress={handleClearHistory}
-          disabled={testHistory.length === 0}
-        >
-          <Text style={[
-            styles.secondaryButtonText,
-            testHistory.length === 0 && styles.secondaryButtonTextDisabled
-          ]}>
-            Clear History
-          </Text>
-        </TouchableOpacity>
-      </View>
     </View>
   );
 
@@ -365,12 +537,15 @@ export const HomeScreen: React.FC = () => {
         {/* Speed Meter */}
         {renderSpeedMeter()}
 
+        {/* Unit Selector */}
+        {renderUnitSelector()}
+
+        {/* Plan selector */}
+        {renderPlanSelector()}
+
         {/* Test Results */}
         {renderTestResults()}
 
-        {/* Statistics */}
-        {renderStats()}
-
         {/* Controls */}
         {renderControls()}
       </ScrollView>
@@ -446,49 +621,51 @@ const styles = StyleSheet.create({
     marginVertical: 32,
   },
   
-  resultsContainer: {
-    margin: 24,
-    padding: 20,
-    backgroundColor: COLORS.surface,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: COLORS.border,
+  planSelector: {
+    marginTop: 8,
   },
   
-  resultsTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: COLORS.text,
-    marginBottom: 16,
+  planName: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
     textAlign: 'center',
+    marginBottom: 12,
   },
   
-  resultsGrid: {
+  unitSelector: {
     flexDirection: 'row',
+    justifyContent: 'center',
     flexWrap: 'wrap',
+    marginHorizontal: 24,
   },
   
-  resultItem: {
-    width: '50%',
-    alignItems: 'center',
-    marginBottom: 16,
+  unitOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    margin: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
   },
   
-  resultValue: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: COLORS.primary,
+  unitOptionActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
   },
   
-  resultLabel: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    marginTop: 4,
+  unitOptionText: {
+    fontSize: 13,
+    color: COLORS.text,
   },
   
-  statsContainer: {
+  unitOptionTextActive: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  
+  resultsContainer: {
     margin: 24,
-    marginTop: 0,
     padding: 20,
     backgroundColor: COLORS.surface,
     borderRadius: 12,
@@ -496,7 +673,7 @@ const styles = StyleSheet.create({
     borderColor: COLORS.border,
   },
   
-  statsTitle: {
+  resultsTitle: {
     fontSize: 18,
     fontWeight: 'bold',
     color: COLORS.text,
@@ -504,27 +681,27 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   
-  statsGrid: {
+  resultsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
   },
   
-  statItem: {
-    width: '25%',
+  resultItem: {
+    width: '50%',
     alignItems: 'center',
+    marginBottom: 16,
   },
   
-  statValue: {
-    fontSize: 20,
+  resultValue: {
+    fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: COLORS.primary,
   },
   
-  statLabel: {
-    fontSize: 12,
+  resultLabel: {
+    fontSize: 14,
     color: COLORS.textSecondary,
     marginTop: 4,
-    textAlign: 'center',
   },
   
   controlsContainer: {
@@ -578,6 +755,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   
+  countdownText: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  
   errorContainer: {
     padding: 12,
     backgroundColor: COLORS.error + '20',
@@ -585,34 +769,39 @@ const styles = StyleSheet.create({
     marginBottom: 16,
   },
   
-  errorText: {
-    color: COLORS.error,
-    fontSize: 14,
+  warningText: {
+    color: COLORS.warning,
+    fontSize: 13,
     textAlign: 'center',
+    marginBottom: 12,
   },
   
-  secondaryButtons: {
-    flexDirection: 'row',
-    justifyContent: 'center',
+  errorTitle: {
+    color: COLORS.error,
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 4,
   },
   
-  secondaryButton: {
-    paddingVertical: 12,
-    paddingHorizontal: 24,
-    borderRadius: 20,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-    backgroundColor: COLORS.surface,
+  errorText: {
+    color: COLORS.error,
+    fontSize: 14,
+    textAlign: 'center',
   },
   
-  secondaryButtonText: {
+  errorSuggestion: {
     color: COLORS.text,
     fontSize: 14,
-    fontWeight: '500',
+    textAlign: 'center',
+    marginTop: 8,
   },
   
-  secondaryButtonTextDisabled: {
+  errorDetail: {
     color: COLORS.textSecondary,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
   },
 });
 
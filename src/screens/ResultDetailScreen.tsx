@@ -0,0 +1,295 @@
+/**
+ * ResultDetailScreen - Detalle completo de un resultado del historial
+ * Métricas por fase, servidor, dispositivo y red tal como se guardaron
+ * Principio SOLID: Single Responsibility - Solo presenta; borrar lo decide quien la abre
+ */
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import SpeedChart from '../components/speedtest/SpeedChart';
+import { SpeedTestResult, SpeedUnit, TestPhase, resultIncludesPhase } from '../types/SpeedTest';
+import { formatBytes, formatSpeedWithUnit } from '../utils/units';
+
+// ===============================
+// CONFIGURACIÓN DE COLORES Y ESTILOS
+// ===============================
+
+const COLORS = {
+  primary: '#2196F3',
+  error: '#F44336',
+  warning: '#FF9800',
+  background: '#F5F5F5',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+const NOT_MEASURED = '–';
+
+interface ResultDetailScreenProps {
+  result: SpeedTestResult;
+  unit: SpeedUnit;
+  onClose: () => void;
+  onDelete: (id: string) => void;
+}
+
+type DetailRow = [label: string, value: string];
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const ResultDetailScreen: React.FC<ResultDetailScreenProps> = ({
+  result,
+  unit,
+  onClose,
+  onDelete,
+}) => {
+  const { serverInfo, deviceInfo, networkInfo } = result;
+
+  const handleDelete = useCallback(() => {
+    Alert.alert(
+      'Delete Result',
+      'Remove this test from your history? This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => onDelete(result.id) },
+      ]
+    );
+  }, [onDelete, result.id]);
+
+  // ===============================
+  // FUNCIONES UTILITARIAS
+  // ===============================
+
+  const ifMeasured = (phase: TestPhase, value: () => string): string =>
+    resultIncludesPhase(result, phase) ? value() : NOT_MEASURED;
+
+  const formatMs = (value: number | null | undefined): string =>
+    value === null || value === undefined ? NOT_MEASURED : `${Math.round(value)} ms`;
+
+  const formatDuration = (ms: number | undefined): string =>
+    ms === undefined ? NOT_MEASURED : `${(ms / 1000).toFixed(1)} s`;
+
+  const pingRows: DetailRow[] = [
+    ['Ping (median)', ifMeasured('ping', () => formatMs(result.ping))],
+    ['Jitter', ifMeasured('ping', () => formatMs(result.jitter))],
+    [
+      result.lossMethod === 'packet' ? 'Packet loss' : 'Request failures',
+      ifMeasured('ping', () => `${result.packetLoss}%`),
+    ],
+  ];
+  if (result.latencyStats) {
+    pingRows.push(
+      ['Min / p95', `${formatMs(result.latencyStats.min)} / ${formatMs(result.latencyStats.p95)}`],
+      ['Samples', `${result.latencyStats.received} of ${result.latencyStats.sent}`],
+    );
+  }
+
+  const downloadRows: DetailRow[] = [
+    ['Speed', ifMeasured('download', () => formatSpeedWithUnit(result.downloadSpeed, unit))],
+    ['Duration', formatDuration(result.downloadDurationMs)],
+    ['Data', result.bytesDownloaded === undefined ? NOT_MEASURED : formatBytes(result.bytesDownloaded)],
+    ['Loaded ping', formatMs(result.latency?.download)],
+    ['Connections', `${result.downloadConnections?.length ?? NOT_MEASURED}`],
+  ];
+
+  const uploadRows: DetailRow[] = [
+    ['Speed', ifMeasured('upload', () => formatSpeedWithUnit(result.uploadSpeed, unit))],
+    ['Duration', formatDuration(result.uploadDurationMs)],
+    ['Data', result.bytesUploaded === undefined ? NOT_MEASURED : formatBytes(result.bytesUploaded)],
+    ['Loaded ping', formatMs(result.latency?.upload)],
+    ['Connections', `${result.uploadConnections?.length ?? NOT_MEASURED}`],
+  ];
+
+  const connectionRows: DetailRow[] = [
+    ['Connect (DNS + TCP + TLS)', formatMs(result.connectionTimings?.connectMs)],
+    ['Time to first byte', formatMs(result.connectionTimings?.ttfbMs)],
+    ['Bufferbloat', result.bufferbloatGrade ?? NOT_MEASURED],
+  ];
+
+  const serverRows: DetailRow[] = [
+    ['Name', serverInfo.name],
+    ['Location', serverInfo.location],
+    ['Distance', `${Math.round(serverInfo.distance)} km`],
+    ['Discovery ping', formatMs(serverInfo.ping)],
+    ['ID', serverInfo.id],
+  ];
+
+  const deviceRows: DetailRow[] = [
+    ['Platform', deviceInfo.platform],
+    ['Model', deviceInfo.model],
+    ['OS version', deviceInfo.osVersion],
+    ['App version', deviceInfo.appVersion],
+  ];
+
+  const networkRows: DetailRow[] = [
+    ['Type', networkInfo.type],
+    ['Carrier', networkInfo.carrier ?? NOT_MEASURED],
+    ['Internet reachable', networkInfo.isInternetReachable ? 'Yes' : 'No'],
+    ['Local IP', networkInfo.ipAddress ?? NOT_MEASURED],
+    ['Public IP', networkInfo.publicIp ?? NOT_MEASURED],
+  ];
+
+  // ===============================
+  // RENDER DE COMPONENTES
+  // ===============================
+
+  const renderSection = (title: string, rows: DetailRow[]) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {rows.map(([label, value]) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <Text style={styles.rowValue}>{value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  // ===============================
+  // RENDER PRINCIPAL
+  // ===============================
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.headerAction}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{result.timestamp.toLocaleString()}</Text>
+        <TouchableOpacity onPress={handleDelete}>
+          <Text style={[styles.headerAction, styles.deleteAction]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {result.testPlan && <Text style={styles.planName}>{result.testPlan.name}</Text>}
+
+        {result.warnings?.includes('data-cap-reached') && (
+          <Text style={styles.warningText}>Stopped early at the mobile data cap.</Text>
+        )}
+        {result.warnings?.includes('transparent-proxy') && (
+          <Text style={styles.warningText}>A proxy on the network may have affected this result.</Text>
+        )}
+
+        {renderSection('Ping', pingRows)}
+        {renderSection('Download', downloadRows)}
+        {renderSection('Upload', uploadRows)}
+        {renderSection('Connection', connectionRows)}
+
+        <View style={styles.section}>
+          <SpeedChart
+            downloadSamples={result.downloadSamples}
+            uploadSamples={result.uploadSamples}
+            pingSamples={result.pingSamples}
+            unit={unit}
+          />
+        </View>
+
+        {renderSection('Server', serverRows)}
+        {renderSection('Network', networkRows)}
+        {renderSection('Device', deviceRows)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+
+  headerTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+
+  headerAction: {
+    fontSize: 15,
+    color: COLORS.primary,
+  },
+
+  deleteAction: {
+    color: COLORS.error,
+  },
+
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+
+  planName: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+
+  warningText: {
+    color: COLORS.warning,
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+
+  section: {
+    marginBottom: 16,
+    padding: 16,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+
+  rowLabel: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+
+  rowValue: {
+    fontSize: 14,
+    color: COLORS.text,
+    fontWeight: '500',
+  },
+});
+
+export default ResultDetailScreen;
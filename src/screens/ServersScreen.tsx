@@ -0,0 +1,194 @@
+/**
+ * ServersScreen - Servidores de prueba ordenados del mejor al peor
+ * Principio SOLID: Single Responsibility - Solo muestra y refresca el ranking
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  SafeAreaView,
+  ListRenderItem,
+} from 'react-native';
+import { useSpeedTestContext } from '../hooks/SpeedTestContext';
+import { ServerCandidate } from '../types/SpeedTest';
+
+// ===============================
+// CONFIGURACIÓN DE COLORES Y ESTILOS
+// ===============================
+
+const COLORS = {
+  primary: '#2196F3',
+  success: '#4CAF50',
+  error: '#F44336',
+  background: '#F5F5F5',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const ServersScreen: React.FC = () => {
+  // Hooks
+  const { servers, refreshServers } = useSpeedTestContext();
+
+  // Estado local
+  const [refreshing, setRefreshing] = useState(false);
+  const enteredRef = useRef(false);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refreshServers();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refreshServers]);
+
+  // El ranking solo existe tras un test o un refresco: se pide al entrar
+  useEffect(() => {
+    if (enteredRef.current) return;
+    enteredRef.current = true;
+    if (servers.length === 0) {
+      handleRefresh();
+    }
+  }, [servers.length, handleRefresh]);
+
+  // ===============================
+  // RENDER DE COMPONENTES
+  // ===============================
+
+  const renderItem: ListRenderItem<ServerCandidate> = ({ item, index }) => (
+    <View style={styles.serverCard}>
+      <View style={styles.serverHeader}>
+        <Text style={styles.serverName}>{item.name}</Text>
+        {index === 0 && item.reachable && <Text style={styles.bestBadge}>Best</Text>}
+      </View>
+      <Text style={styles.serverLocation}>{item.location}</Text>
+      <Text style={[styles.serverMetrics, !item.reachable && styles.unreachable]}>
+        {item.reachable
+          ? `${Math.round(item.ping)} ms · ${Math.round(item.distance)} km`
+          : 'Unreachable'}
+      </Text>
+    </View>
+  );
+
+  // ===============================
+  // RENDER PRINCIPAL
+  // ===============================
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Servers</Text>
+        <Text style={styles.headerSubtitle}>Pull down to measure again</Text>
+      </View>
+
+      <FlatList
+        data={servers}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {refreshing ? 'Measuring servers…' : 'No servers found.'}
+          </Text>
+        }
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+
+  header: {
+    padding: 24,
+    paddingBottom: 12,
+    alignItems: 'center',
+  },
+
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 4,
+  },
+
+  headerSubtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+
+  listContent: {
+    paddingBottom: 32,
+  },
+
+  serverCard: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 16,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+
+  serverHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+
+  serverName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+
+  bestBadge: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: COLORS.success,
+  },
+
+  serverLocation: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+
+  serverMetrics: {
+    fontSize: 14,
+    color: COLORS.primary,
+    marginTop: 8,
+  },
+
+  unreachable: {
+    color: COLORS.error,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
+
+export default ServersScreen;
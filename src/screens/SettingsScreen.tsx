@@ -0,0 +1,501 @@
+/**
+ * SettingsScreen - Preferencias y gestión de datos guardados
+ * Cada cambio se guarda al momento; los campos de texto, al terminar de editar.
+ * Los valores avanzados fuera de rango se descartan y vuelven al por defecto
+ * Principio SOLID: Single Responsibility - Solo expone ajustes y acciones de mantenimiento
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  SafeAreaView,
+  Switch,
+  TextInput,
+  KeyboardTypeOptions,
+} from 'react-native';
+import { useSettings, useSpeedTestContext } from '../hooks/SpeedTestContext';
+import {
+  AdvancedTestConfig,
+  DEFAULT_HISTORY_RETENTION,
+  SpeedTestProviderType,
+  SPEED_TEST_CONSTANTS,
+} from '../types/SpeedTest';
+
+// ===============================
+// CONFIGURACIÓN DE COLORES Y OPCIONES
+// ===============================
+
+const COLORS = {
+  primary: '#2196F3',
+  error: '#F44336',
+  background: '#F5F5F5',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+const INTERVAL_OPTIONS: { value: number | undefined; label: string }[] = [
+  { value: undefined, label: 'Off' },
+  { value: 15, label: '15 min' },
+  { value: 30, label: '30 min' },
+  { value: 60, label: '1 hour' },
+  { value: 180, label: '3 hours' },
+];
+
+const RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 180, label: '6 months' },
+  { value: 365, label: '1 year' },
+];
+
+const MAX_ITEMS_OPTIONS: { value: number; label: string }[] = [
+  { value: 100, label: '100 tests' },
+  { value: 500, label: '500 tests' },
+  { value: 1000, label: '1000 tests' },
+  { value: 5000, label: '5000 tests' },
+];
+
+const PROVIDER_OPTIONS: { value: SpeedTestProviderType; label: string }[] = [
+  { value: 'cloudflare', label: 'Cloudflare' },
+  { value: 'librespeed', label: 'LibreSpeed' },
+  { value: 'http-file', label: 'HTTP file' },
+];
+
+interface AdvancedFieldDefinition {
+  key: Exclude<keyof AdvancedTestConfig, 'provider'>;
+  label: string;
+  numeric: boolean;
+  scale?: number; // unidades guardadas por unidad mostrada (p. ej. bytes por MB)
+}
+
+const BYTES_PER_MB = 1000 * 1000;
+
+const ADVANCED_FIELDS: AdvancedFieldDefinition[] = [
+  {
+    key: 'testDuration',
+    label: `Test duration (${SPEED_TEST_CONSTANTS.MIN_TEST_DURATION}–${SPEED_TEST_CONSTANTS.MAX_TEST_DURATION} s, empty = until stable)`,
+    numeric: true,
+  },
+  {
+    key: 'maxConcurrentConnections',
+    label: `Connections (1–${SPEED_TEST_CONSTANTS.MAX_CONCURRENT_CONNECTIONS})`,
+    numeric: true,
+  },
+  {
+    key: 'timeout',
+    label: `Timeout (${SPEED_TEST_CONSTANTS.MIN_TIMEOUT}–${SPEED_TEST_CONSTANTS.MAX_TIMEOUT} ms)`,
+    numeric: true,
+  },
+  {
+    key: 'cellularDataCapBytes',
+    label: `Mobile data cap per test (${SPEED_TEST_CONSTANTS.MIN_CELLULAR_DATA_CAP_BYTES / BYTES_PER_MB}–${SPEED_TEST_CONSTANTS.MAX_CELLULAR_DATA_CAP_BYTES / BYTES_PER_MB} MB)`,
+    numeric: true,
+    scale: BYTES_PER_MB,
+  },
+  { key: 'downloadTestUrl', label: 'Download URL', numeric: false },
+  { key: 'uploadTestUrl', label: 'Upload URL', numeric: false },
+  { key: 'pingTestUrl', label: 'Ping URL', numeric: false },
+];
+
+const displayAdvancedValue = (
+  field: AdvancedFieldDefinition,
+  value: string | number | undefined,
+): string | number | undefined =>
+  typeof value === 'number' && field.scale ? value / field.scale : value;
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const SettingsScreen: React.FC = () => {
+  // Hooks
+  const { historyCount, clearHistory, servers, refreshServers } = useSpeedTestContext();
+  const { settings, updateSettings } = useSettings();
+  const enteredRef = useRef(false);
+
+  // La lista de servidores solo existe tras un test o un refresco: se pide al entrar
+  useEffect(() => {
+    if (enteredRef.current) return;
+    enteredRef.current = true;
+    if (servers.length === 0) {
+      refreshServers();
+    }
+  }, [servers.length, refreshServers]);
+
+  // ===============================
+  // FUNCIONES DE EVENTOS
+  // ===============================
+
+  const handleClearHistory = useCallback(() => {
+    Alert.alert(
+      'Clear History',
+      'Are you sure you want to clear all test history? This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: clearHistory },
+      ]
+    );
+  }, [clearHistory]);
+
+  // Vacío vuelve al valor por defecto
+  const handleAdvancedChange = useCallback((field: AdvancedFieldDefinition, text: string) => {
+    const trimmed = text.trim();
+    const value =
+      trimmed === '' ? undefined : field.numeric ? Number(trimmed) * (field.scale ?? 1) : trimmed;
+    updateSettings({ advanced: { ...settings.advanced, [field.key]: value } });
+  }, [settings.advanced, updateSettings]);
+
+  // ===============================
+  // RENDER DE COMPONENTES
+  // ===============================
+
+  const renderSwitch = (label: string, description: string, value: boolean, onChange: (value: boolean) => void) => (
+    <View style={styles.switchRow}>
+      <View style={styles.switchText}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        <Text style={styles.rowDescription}>{description}</Text>
+      </View>
+      <Switch value={value} onValueChange={onChange} trackColor={{ true: COLORS.primary, false: COLORS.border }} />
+    </View>
+  );
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={[styles.chip, isActive && styles.chipActive]} onPress={onPress}>
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // El servidor preferido se muestra aunque hoy no aparezca en la lista
+  const serverOptions = servers.map(server => ({ id: server.id, name: server.name }));
+  if (settings.preferredServer && !servers.some(server => server.id === settings.preferredServer)) {
+    serverOptions.push({ id: settings.preferredServer, name: settings.preferredServer });
+  }
+
+  // ===============================
+  // RENDER PRINCIPAL
+  // ===============================
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Settings</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Testing</Text>
+          {renderSwitch(
+            'Test on launch',
+            'Start a speed test every time the app opens.',
+            settings.autoStartOnLaunch,
+            autoStartOnLaunch => updateSettings({ autoStartOnLaunch }),
+          )}
+          {renderSwitch(
+            'Save results',
+            'Keep finished tests in the history.',
+            settings.saveHistory,
+            saveHistory => updateSettings({ saveHistory }),
+          )}
+
+          <Text style={styles.rowLabel}>Repeat while open</Text>
+          <Text style={styles.rowDescription}>Scheduled tests are skipped on mobile data.</Text>
+          <View style={styles.chipRow}>
+            {INTERVAL_OPTIONS.map(option =>
+              renderChip(
+                option.label,
+                option.label,
+                settings.testIntervalMinutes === option.value,
+                () => updateSettings({ testIntervalMinutes: option.value }),
+              ),
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Server</Text>
+          <Text style={styles.sectionDescription}>
+            The preferred server is used whenever it responds; otherwise the best one is picked.
+          </Text>
+          <View style={styles.chipRow}>
+            {renderChip('automatic', 'Automatic', !settings.preferredServer, () =>
+              updateSettings({ preferredServer: undefined }),
+            )}
+            {serverOptions.map(server =>
+              renderChip(server.id, server.name, settings.preferredServer === server.id, () =>
+                updateSettings({ preferredServer: server.id }),
+              ),
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Advanced</Text>
+          <Text style={styles.sectionDescription}>
+            Leave a field empty to use the default. Custom URLs are used once all three are set,
+            instead of the selected server, with the backend chosen below.
+          </Text>
+          {ADVANCED_FIELDS.map(field => (
+            <AdvancedField
+              key={field.key}
+              label={field.label}
+              value={displayAdvancedValue(field, settings.advanced[field.key])}
+              keyboardType={field.numeric ? 'number-pad' : 'url'}
+              onSubmit={text => handleAdvancedChange(field, text)}
+            />
+          ))}
+
+          <Text style={styles.rowLabel}>Custom server backend</Text>
+          <View style={styles.chipRow}>
+            {PROVIDER_OPTIONS.map(option =>
+              renderChip(
+                option.value,
+                option.label,
+                (settings.advanced.provider ?? 'cloudflare') === option.value,
+                () => updateSettings({ advanced: { ...settings.advanced, provider: option.value } }),
+              ),
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          <Text style={styles.sectionDescription}>
+            {historyCount} {historyCount === 1 ? 'test' : 'tests'} saved on this device.
+          </Text>
+
+          <Text style={styles.rowLabel}>Keep results for</Text>
+          <Text style={styles.rowDescription}>Older results are deleted right away.</Text>
+          <View style={[styles.chipRow, styles.retentionRow]}>
+            {RETENTION_OPTIONS.map(option =>
+              renderChip(
+                option.label,
+                option.label,
+                (settings.historyRetentionDays ?? DEFAULT_HISTORY_RETENTION.maxAgeDays) ===
+                  option.value,
+                () => updateSettings({ historyRetentionDays: option.value }),
+              ),
+            )}
+          </View>
+
+          <Text style={styles.rowLabel}>Keep at most</Text>
+          <Text style={styles.rowDescription}>The oldest results beyond this are deleted.</Text>
+          <View style={[styles.chipRow, styles.retentionRow]}>
+            {MAX_ITEMS_OPTIONS.map(option =>
+              renderChip(
+                option.label,
+                option.label,
+                (settings.historyMaxItems ?? DEFAULT_HISTORY_RETENTION.maxItems) === option.value,
+                () => updateSettings({ historyMaxItems: option.value }),
+              ),
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={styles.destructiveButton}
+            onPress={handleClearHistory}
+            disabled={historyCount === 0}
+          >
+            <Text
+              style={[
+                styles.destructiveButtonText,
+                historyCount === 0 && styles.buttonTextDisabled,
+              ]}
+            >
+              Clear History
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+// ===============================
+// CAMPO AVANZADO
+// ===============================
+
+interface AdvancedFieldProps {
+  label: string;
+  value?: string | number;
+  keyboardType: KeyboardTypeOptions;
+  onSubmit: (text: string) => void;
+}
+
+/**
+ * Edita un borrador mientras tiene el foco; al salir muestra lo guardado,
+ * así un valor descartado por inválido desaparece en lugar de quedarse
+ */
+const AdvancedField: React.FC<AdvancedFieldProps> = ({ label, value, keyboardType, onSubmit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const stored = value === undefined ? '' : String(value);
+
+  return (
+    <View style={styles.field}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={draft ?? stored}
+        placeholder="Default"
+        placeholderTextColor={COLORS.textSecondary}
+        keyboardType={keyboardType}
+        autoCapitalize="none"
+        autoCorrect={false}
+        onFocus={() => setDraft(stored)}
+        onChangeText={setDraft}
+        onEndEditing={() => {
+          if (draft !== null && draft !== stored) onSubmit(draft);
+          setDraft(null);
+        }}
+      />
+    </View>
+  );
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+
+  scrollContent: {
+    paddingBottom: 32,
+  },
+
+  header: {
+    padding: 24,
+    alignItems: 'center',
+  },
+
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+
+  section: {
+    marginHorizontal: 24,
+    marginBottom: 24,
+    padding: 20,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+
+  sectionDescription: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginBottom: 16,
+  },
+
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+
+  rowLabel: {
+    fontSize: 15,
+    color: COLORS.text,
+  },
+
+  rowDescription: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+
+  chipActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+
+  chipTextActive: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+
+  retentionRow: {
+    marginBottom: 8,
+  },
+
+  field: {
+    marginBottom: 12,
+  },
+
+  input: {
+    marginTop: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    fontSize: 14,
+    color: COLORS.text,
+  },
+
+  destructiveButton: {
+    paddingVertical: 12,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.error,
+    alignItems: 'center',
+  },
+
+  destructiveButtonText: {
+    color: COLORS.error,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+
+  buttonTextDisabled: {
+    color: COLORS.textSecondary,
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,160 @@
+/**
+ * StatisticsScreen - Medias del historial y consumo de datos del mes
+ * Principio SOLID: Single Responsibility - Solo resume; el detalle está en History
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, SafeAreaView } from 'react-native';
+import { useSpeedTestContext } from '../hooks/SpeedTestContext';
+import { useDataUsage, useSpeedTestStats, useSpeedUnit } from '../hooks/useSpeedTest';
+import { formatBytes, formatSpeed } from '../utils/units';
+
+// ===============================
+// CONFIGURACIÓN DE COLORES Y ESTILOS
+// ===============================
+
+const COLORS = {
+  background: '#F5F5F5',
+  surface: '#FFFFFF',
+  text: '#212121',
+  textSecondary: '#757575',
+  border: '#E0E0E0',
+};
+
+// ===============================
+// COMPONENTE PRINCIPAL
+// ===============================
+
+export const StatisticsScreen: React.FC = () => {
+  // Hooks
+  const { testHistory, historyCount, queryHistory } = useSpeedTestContext();
+  const stats = useSpeedTestStats(queryHistory, testHistory);
+  const { unit } = useSpeedUnit();
+  const dataUsage = useDataUsage(historyCount);
+
+  // ===============================
+  // RENDER DE COMPONENTES
+  // ===============================
+
+  const renderStat = (value: string | number, label: string) => (
+    <View style={styles.statItem}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+
+  // ===============================
+  // RENDER PRINCIPAL
+  // ===============================
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Statistics</Text>
+          <Text style={styles.headerSubtitle}>
+            {stats.lastTestDate
+              ? `Last test ${stats.lastTestDate.toLocaleString()}`
+              : 'Run a test to see your statistics'}
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Averages</Text>
+          <View style={styles.statsGrid}>
+            {renderStat(stats.totalTests, 'Total Tests')}
+            {renderStat(formatSpeed(stats.averageDownload, unit), `Avg Download (${unit})`)}
+            {renderStat(formatSpeed(stats.averageUpload, unit), `Avg Upload (${unit})`)}
+            {renderStat(stats.averagePing, 'Avg Ping (ms)')}
+          </View>
+        </View>
+
+        {dataUsage && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Data This Month</Text>
+            <View style={styles.statsGrid}>
+              {renderStat(formatBytes(dataUsage.totalBytes), 'Total')}
+              {renderStat(formatBytes(dataUsage.cellularBytes), 'Mobile Data')}
+              {renderStat(dataUsage.tests, 'Tests')}
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+// ===============================
+// ESTILOS
+// ===============================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+
+  scrollContent: {
+    paddingBottom: 32,
+  },
+
+  header: {
+    padding: 24,
+    alignItems: 'center',
+  },
+
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 4,
+  },
+
+  headerSubtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+
+  card: {
+    marginHorizontal: 24,
+    marginBottom: 24,
+    padding: 20,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+
+  statItem: {
+    width: '25%',
+    alignItems: 'center',
+  },
+
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+
+  statLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
+
+export default StatisticsScreen;
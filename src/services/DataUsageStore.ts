@@ -0,0 +1,85 @@
+/**
+ * DataUsageStore - Contador mensual de datos consumidos por los tests
+ * Principio SOLID: Single Responsibility - Solo persiste el consumo del mes
+ *
+ * Guarda un único registro del mes en curso; al cambiar de mes se reinicia.
+ * El almacenamiento es inyectable para poder usarlo sin AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyValueStorage, MonthlyDataUsage, NetworkInfo } from '../types/SpeedTest';
+
+const DATA_USAGE_KEY = 'speedtest_data_usage';
+
+// ===============================
+// INTERFAZ DEL STORE
+// ===============================
+
+export interface IDataUsageStore {
+  getMonthlyUsage(now?: Date): Promise<MonthlyDataUsage>;
+  recordUsage(bytes: number, networkType: NetworkInfo['type'], now?: Date): Promise<MonthlyDataUsage>;
+}
+
+// ===============================
+// IMPLEMENTACIÓN
+// ===============================
+
+export class DataUsageStore implements IDataUsageStore {
+  constructor(private readonly storage: KeyValueStorage = AsyncStorage) {}
+
+  async getMonthlyUsage(now: Date = new Date()): Promise<MonthlyDataUsage> {
+    const month = toMonthKey(now);
+
+    try {
+      const stored = await this.storage.getItem(DATA_USAGE_KEY);
+      const usage = stored ? (JSON.parse(stored) as MonthlyDataUsage) : null;
+      return usage?.month === month ? usage : emptyUsage(month);
+    } catch (error) {
+      console.warn('Failed to load data usage:', error);
+      return emptyUsage(month);
+    }
+  }
+
+  async recordUsage(
+    bytes: number,
+    networkType: NetworkInfo['type'],
+    now: Date = new Date(),
+  ): Promise<MonthlyDataUsage> {
+    const current = await this.getMonthlyUsage(now);
+    const updated: MonthlyDataUsage = {
+      ...current,
+      totalBytes: current.totalBytes + bytes,
+      cellularBytes: current.cellularBytes + (networkType === 'cellular' ? bytes : 0),
+      tests: current.tests + 1,
+    };
+
+    try {
+      await this.storage.setItem(DATA_USAGE_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.warn('Failed to save data usage:', error);
+    }
+    return updated;
+  }
+}
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+const toMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const emptyUsage = (month: string): MonthlyDataUsage => ({
+  month,
+  totalBytes: 0,
+  cellularBytes: 0,
+  tests: 0,
+});
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createDataUsageStore = (storage?: KeyValueStorage): IDataUsageStore => {
+  return new DataUsageStore(storage);
+};
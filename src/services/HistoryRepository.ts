@@ -0,0 +1,439 @@
+/**
+ * HistoryRepository - Persistencia del historial de tests
+ * Principio SOLID: Single Responsibility - Único punto que lee y escribe el historial
+ *
+ * El historial se reparte en páginas de AsyncStorage y un índice versionado
+ * que las enumera (de la más reciente a la más antigua) con el rango de
+ * fechas y los tipos de red de cada una. Guardar un test solo reescribe la
+ * página más reciente, y las consultas por fecha o red saltan páginas sin
+ * leerlas. Las páginas se escriben con una clave nueva y el índice se guarda
+ * el último: hasta ese momento el historial anterior sigue intacto.
+ *
+ * Al leer, cualquier versión anterior pasa por las migraciones pendientes y
+ * las entradas que no superan la validación se descartan. Las operaciones se
+ * encadenan en una cola: cada una termina antes de que empiece la siguiente.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_HISTORY_RETENTION,
+  HistoryQuery,
+  HistoryRetention,
+  KeyValueStorage,
+  NetworkInfo,
+  SpeedTestResult,
+  isValidSpeedTestResult,
+} from '../types/SpeedTest';
+import { migrateLegacySpeedUnits } from '../utils/units';
+
+const HISTORY_KEY = 'speedtest_history';
+const PAGE_KEY_PREFIX = 'speedtest_history_page_';
+
+// Suficientemente pequeña para reescribirla en cada test
+const DEFAULT_RESULTS_PER_PAGE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================
+// ESQUEMA Y MIGRACIONES
+// ===============================
+
+// v1: array JSON sin envoltorio, velocidades posiblemente en Mibps
+// v2: { version, results } con velocidades en Mbps decimales
+// v3: índice de páginas; las entradas no cambian respecto a v2
+export const HISTORY_SCHEMA_VERSION = 3;
+
+// Formato de un único bloque (v1 y v2)
+interface LegacyHistoryDocument {
+  version: number;
+  results: unknown[];
+}
+
+interface HistoryPage {
+  key: string;
+  count: number;
+  newest: number; // timestamp en ms del resultado más reciente
+  oldest: number;
+  networkTypes: NetworkInfo['type'][];
+}
+
+interface HistoryIndex {
+  version: number;
+  nextPageId: number;
+  pages: HistoryPage[]; // de la más reciente a la más antigua
+}
+
+// Cada migración lleva las entradas de la versión clave a la siguiente
+const MIGRATIONS: Record<number, (results: unknown[]) => unknown[]> = {
+  1: results =>
+    results.map(entry => (isValidSpeedTestResult(entry) ? migrateLegacySpeedUnits(entry) : entry)),
+  2: results => results,
+};
+
+export interface HistoryRepositoryOptions {
+  storage?: KeyValueStorage;
+  retention?: HistoryRetention;
+  resultsPerPage?: number;
+  now?: () => number; // reloj para la retención por antigüedad
+}
+
+// ===============================
+// INTERFAZ DEL REPOSITORIO
+// ===============================
+
+export interface IHistoryRepository {
+  /** Resultados del más reciente al más antiguo */
+  query(query?: HistoryQuery): Promise<SpeedTestResult[]>;
+  /** Total guardado, sin leer las páginas */
+  count(): Promise<number>;
+  /** Añade al principio y aplica la retención */
+  append(result: SpeedTestResult): Promise<void>;
+  /** false si no había ningún resultado con ese id */
+  remove(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+  /** Cambia la retención y la aplica ya al historial guardado */
+  setRetention(retention: HistoryRetention): Promise<void>;
+}
+
+// ===============================
+// IMPLEMENTACIÓN
+// ===============================
+
+export class HistoryRepository implements IHistoryRepository {
+  private readonly storage: KeyValueStorage;
+  private readonly resultsPerPage: number;
+  private readonly now: () => number;
+  private retention: HistoryRetention;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(options: HistoryRepositoryOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.retention = options.retention ?? DEFAULT_HISTORY_RETENTION;
+    this.resultsPerPage = options.resultsPerPage ?? DEFAULT_RESULTS_PER_PAGE;
+    this.now = options.now ?? Date.now;
+  }
+
+  query(query: HistoryQuery = {}): Promise<SpeedTestResult[]> {
+    return this.exclusive(async () => {
+      const { from, to, networkType, filter, offset = 0, limit = Infinity } = query;
+      const index = await this.loadIndex();
+      const matches: SpeedTestResult[] = [];
+      let skipped = 0;
+
+      for (const page of index.pages) {
+        if (matches.length >= limit) break;
+        if (!pageMayMatch(page, query)) continue;
+
+        for (const result of await this.readPage(page.key)) {
+          const time = result.timestamp.getTime();
+          if (from && time < from.getTime()) continue;
+          if (to && time > to.getTime()) continue;
+          if (networkType && result.networkInfo.type !== networkType) continue;
+          if (filter && !filter(result)) continue;
+
+          if (skipped < offset) {
+            skipped++;
+          } else if (matches.push(result) >= limit) {
+            break;
+          }
+        }
+      }
+
+      return matches;
+    });
+  }
+
+  count(): Promise<number> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex();
+      return index.pages.reduce((sum, page) => sum + page.count, 0);
+    });
+  }
+
+  append(result: SpeedTestResult): Promise<void> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex();
+      const [latest, ...older] = index.pages;
+      const replaced: string[] = [];
+
+      if (latest && latest.count < this.resultsPerPage) {
+        const results = [result, ...(await this.readPage(latest.key))];
+        index.pages = [await this.writePage(index, results), ...older];
+        replaced.push(latest.key);
+      } else {
+        index.pages = [await this.writePage(index, [result]), ...index.pages];
+      }
+
+      await this.commit(index, replaced);
+    });
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex();
+
+      for (let i = 0; i < index.pages.length; i++) {
+        const page = index.pages[i];
+        const results = await this.readPage(page.key);
+        const remaining = results.filter(result => result.id !== id);
+        if (remaining.length === results.length) continue;
+
+        const replacement = remaining.length > 0 ? [await this.writePage(index, remaining)] : [];
+        index.pages.splice(i, 1, ...replacement);
+        await this.commit(index, [page.key]);
+        return true;
+      }
+
+      return false;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.exclusive(async () => {
+      const index = await this.loadIndex();
+      await this.storage.removeItem(HISTORY_KEY);
+      await this.removePages(index.pages.map(page => page.key));
+    });
+  }
+
+  setRetention(retention: HistoryRetention): Promise<void> {
+    return this.exclusive(async () => {
+      this.retention = retention;
+      const index = await this.loadIndex();
+      await this.commit(index, []);
+    });
+  }
+
+  // ===============================
+  // MÉTODOS PRIVADOS
+  // ===============================
+
+  // Un fallo no bloquea la cola: la siguiente operación arranca igualmente
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(operation, operation);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async loadIndex(): Promise<HistoryIndex> {
+    const stored = await this.storage.getItem(HISTORY_KEY);
+    if (!stored) return emptyIndex();
+
+    let data: unknown;
+    try {
+      data = JSON.parse(stored);
+    } catch (error) {
+      // Un índice ilegible se descarta: de lo contrario bloquearía todo guardado
+      console.warn('Discarding unreadable test history:', error);
+      return emptyIndex();
+    }
+
+    const version = schemaVersion(data);
+    if (version > HISTORY_SCHEMA_VERSION) {
+      // Escribir encima perdería datos de una versión más nueva de la app
+      throw new Error(
+        `History schema v${version} is newer than supported v${HISTORY_SCHEMA_VERSION}`,
+      );
+    }
+
+    if (isHistoryIndex(data)) {
+      return data;
+    }
+    return this.upgradeLegacyDocument(data);
+  }
+
+  /**
+   * Pasa el bloque único de v1/v2 a páginas. El documento antiguo ocupa la
+   * misma clave que el índice, así que se sustituye en la misma escritura
+   */
+  private async upgradeLegacyDocument(data: unknown): Promise<HistoryIndex> {
+    let document: LegacyHistoryDocument;
+    try {
+      document = toLegacyDocument(data);
+    } catch (error) {
+      console.warn('Discarding unreadable test history:', error);
+      return emptyIndex();
+    }
+
+    let entries = document.results;
+    for (let version = document.version; version < HISTORY_SCHEMA_VERSION; version++) {
+      entries = MIGRATIONS[version](entries);
+    }
+
+    const results = validateEntries(entries);
+    const index = emptyIndex();
+    for (let start = 0; start < results.length; start += this.resultsPerPage) {
+      index.pages.push(await this.writePage(index, results.slice(start, start + this.resultsPerPage)));
+    }
+
+    await this.commit(index, []);
+    return index;
+  }
+
+  private async readPage(key: string): Promise<SpeedTestResult[]> {
+    try {
+      const stored = await this.storage.getItem(key);
+      const entries: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? validateEntries(entries) : [];
+    } catch (error) {
+      console.warn(`Skipping unreadable history page ${key}:`, error);
+      return [];
+    }
+  }
+
+  // Siempre con una clave nueva: la página que sustituye sigue válida hasta el commit
+  private async writePage(index: HistoryIndex, results: SpeedTestResult[]): Promise<HistoryPage> {
+    const key = `${PAGE_KEY_PREFIX}${index.nextPageId++}`;
+    await this.storage.setItem(key, JSON.stringify(results));
+    return describePage(key, results);
+  }
+
+  /**
+   * Aplica la retención, guarda el índice y solo entonces borra las páginas
+   * sustituidas o descartadas
+   */
+  private async commit(index: HistoryIndex, replaced: string[]): Promise<void> {
+    const dropped = await this.applyRetention(index);
+    await this.storage.setItem(HISTORY_KEY, JSON.stringify(index));
+    await this.removePages([...replaced, ...dropped]);
+  }
+
+  // Recorta el índice en sitio y devuelve las claves que dejan de usarse
+  private async applyRetention(index: HistoryIndex): Promise<string[]> {
+    const { maxItems = Infinity, maxAgeDays } = this.retention;
+    const cutoff = maxAgeDays === undefined ? -Infinity : this.now() - maxAgeDays * DAY_MS;
+    const kept: HistoryPage[] = [];
+    const dropped: string[] = [];
+    let total = 0;
+
+    for (const page of index.pages) {
+      if (total >= maxItems || page.newest < cutoff) {
+        dropped.push(page.key);
+        continue;
+      }
+      if (total + page.count <= maxItems && page.oldest >= cutoff) {
+        kept.push(page);
+        total += page.count;
+        continue;
+      }
+
+      // Página en el borde: se reescribe solo con lo que se conserva
+      const results = (await this.readPage(page.key))
+        .filter(result => result.timestamp.getTime() >= cutoff)
+        .slice(0, maxItems - total);
+      dropped.push(page.key);
+      if (results.length > 0) {
+        kept.push(await this.writePage(index, results));
+        total += results.length;
+      }
+    }
+
+    index.pages = kept;
+    return dropped;
+  }
+
+  // Una página huérfana solo ocupa espacio: su borrado no debe fallar la operación
+  private async removePages(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.removeItem(key);
+      } catch (error) {
+        console.warn(`Failed to remove history page ${key}:`, error);
+      }
+    }
+  }
+}
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+const emptyIndex = (): HistoryIndex => ({
+  version: HISTORY_SCHEMA_VERSION,
+  nextPageId: 1,
+  pages: [],
+});
+
+// Un array sin envoltorio es el formato v1
+const schemaVersion = (data: unknown): number => {
+  if (Array.isArray(data)) return 1;
+  const version = (data as { version?: unknown } | null)?.version;
+  return typeof version === 'number' ? version : 0;
+};
+
+const isHistoryIndex = (data: unknown): data is HistoryIndex => {
+  const candidate = data as Partial<HistoryIndex> | null;
+  return (
+    candidate?.version === HISTORY_SCHEMA_VERSION &&
+    typeof candidate.nextPageId === 'number' &&
+    Array.isArray(candidate.pages)
+  );
+};
+
+const toLegacyDocument = (data: unknown): LegacyHistoryDocument => {
+  if (Array.isArray(data)) {
+    return { version: 1, results: data };
+  }
+
+  const candidate = data as Partial<LegacyHistoryDocument> | null;
+  if (
+    typeof candidate?.version !== 'number' ||
+    !Number.isInteger(candidate.version) ||
+    candidate.version < 1 ||
+    !Array.isArray(candidate.results)
+  ) {
+    throw new Error('Unrecognized history format');
+  }
+  return { version: candidate.version, results: candidate.results };
+};
+
+const describePage = (key: string, results: SpeedTestResult[]): HistoryPage => {
+  const times = results.map(result => result.timestamp.getTime());
+  return {
+    key,
+    count: results.length,
+    newest: Math.max(...times),
+    oldest: Math.min(...times),
+    networkTypes: [...new Set(results.map(result => result.networkInfo.type))],
+  };
+};
+
+// Descarta páginas enteras con los metadatos del índice
+const pageMayMatch = (page: HistoryPage, { from, to, networkType }: HistoryQuery): boolean =>
+  !(from && page.newest < from.getTime()) &&
+  !(to && page.oldest > to.getTime()) &&
+  !(networkType && !page.networkTypes.includes(networkType));
+
+const validateEntries = (entries: unknown[]): SpeedTestResult[] => {
+  const results = entries.filter(isValidStoredResult).map(reviveResult);
+  if (results.length < entries.length) {
+    console.warn(`Dropped ${entries.length - results.length} invalid history entries`);
+  }
+  return results;
+};
+
+// Además de la forma básica, el índice necesita una fecha válida y el tipo de red
+const isValidStoredResult = (entry: unknown): entry is SpeedTestResult => {
+  if (!isValidSpeedTestResult(entry)) return false;
+
+  const { timestamp, networkInfo } = entry as { timestamp: unknown; networkInfo: unknown };
+  return (
+    typeof (networkInfo as NetworkInfo | null)?.type === 'string' &&
+    (typeof timestamp === 'string' || timestamp instanceof Date) &&
+    !Number.isNaN(new Date(timestamp).getTime())
+  );
+};
+
+// JSON guarda las fechas como texto
+const reviveResult = (result: SpeedTestResult): SpeedTestResult => ({
+  ...result,
+  timestamp: new Date(result.timestamp),
+});
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createHistoryRepository = (options?: HistoryRepositoryOptions): IHistoryRepository => {
+  return new HistoryRepository(options);
+};
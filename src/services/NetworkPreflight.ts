@@ -0,0 +1,114 @@
+/**
+ * NetworkPreflight - Comprobación de la red antes de medir
+ * Principio SOLID: Single Responsibility - Solo decide si la red es apta
+ *
+ * Pide por HTTP plano una página de contenido conocido. Un portal cautivo
+ * la sustituye por su login (cuerpo distinto) o redirige a él; un proxy
+ * transparente suele delatarse con sus propias cabeceras. Se usa HTTP y no
+ * HTTPS precisamente porque los portales solo pueden interceptar HTTP.
+ */
+
+import { PreflightResult, SPEED_TEST_CONSTANTS } from '../types/SpeedTest';
+import { createLinkedAbortController } from '../utils/abort';
+
+// ===============================
+// CONFIGURACIÓN
+// ===============================
+
+// Requiere excepción de cleartext para este host (Info.plist y
+// network_security_config.xml)
+const DEFAULT_CHECK_URL = 'http://captive.apple.com/hotspot-detect.html';
+const DEFAULT_EXPECTED_BODY =
+  '<HTML><HEAD><TITLE>Success</TITLE></HEAD><BODY>Success</BODY></HTML>';
+
+// Cabeceras que añaden proxies conocidos (Squid, Blue Coat...) y que un
+// servidor de origen no envía. Via queda fuera: muchas CDN la ponen
+const PROXY_HEADERS = [
+  'x-squid-error',
+  'x-cache-lookup',
+  'x-bluecoat-via',
+  'proxy-connection',
+  'x-proxy-id',
+];
+
+export interface NetworkPreflightOptions {
+  checkUrl?: string;
+  expectedBody?: string;
+  timeoutMs?: number;
+}
+
+// ===============================
+// INTERFAZ DEL CHEQUEO
+// ===============================
+
+export interface INetworkPreflight {
+  /**
+   * Nunca rechaza por fallos de red: si la comprobación no se puede
+   * completar el resultado es 'inconclusive' y el test sigue adelante
+   */
+  run(signal?: AbortSignal): Promise<PreflightResult>;
+}
+
+// ===============================
+// IMPLEMENTACIÓN
+// ===============================
+
+export class NetworkPreflight implements INetworkPreflight {
+  constructor(private readonly options: NetworkPreflightOptions = {}) {}
+
+  async run(signal?: AbortSignal): Promise<PreflightResult> {
+    const checkUrl = this.options.checkUrl ?? DEFAULT_CHECK_URL;
+    const timeoutMs = this.options.timeoutMs ?? SPEED_TEST_CONSTANTS.PREFLIGHT_TIMEOUT;
+    const { controller, dispose } = createLinkedAbortController(signal);
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(checkUrl, {
+        headers: { 'Cache-Control': 'no-cache' },
+        signal: controller.signal,
+      });
+      const body = await response.text();
+      const proxyHeaders = PROXY_HEADERS.filter(header => response.headers.has(header));
+
+      if (isRedirected(checkUrl, response.url)) {
+        return { status: 'captive-portal', redirectedTo: response.url, proxyHeaders };
+      }
+
+      // Un error del servidor no dice nada del portal; 511 sí lo anuncia
+      if (!response.ok) {
+        const status = response.status === 511 ? 'captive-portal' : 'inconclusive';
+        return { status, proxyHeaders };
+      }
+
+      const expectedBody = this.options.expectedBody ?? DEFAULT_EXPECTED_BODY;
+      const status = body.trim() === expectedBody ? 'ok' : 'captive-portal';
+
+      return { status, proxyHeaders };
+    } catch (error) {
+      return { status: 'inconclusive', proxyHeaders: [] };
+    } finally {
+      clearTimeout(timer);
+      dispose();
+    }
+  }
+}
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+// fetch sigue las redirecciones solo; se detectan por la URL final
+const isRedirected = (requestedUrl: string, finalUrl: string | undefined): boolean => {
+  if (!finalUrl) return false;
+  return stripTrailingSlash(finalUrl) !== stripTrailingSlash(requestedUrl);
+};
+
+const stripTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createNetworkPreflight = (options?: NetworkPreflightOptions): INetworkPreflight => {
+  return new NetworkPreflight(options);
+};
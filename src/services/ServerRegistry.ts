@@ -0,0 +1,257 @@
+/**
+ * ServerRegistry - Descubrimiento y selección de servidores de prueba
+ * Principio SOLID: Single Responsibility - Solo decide contra qué servidor medir
+ * La lista se carga de una URL configurable y, si falla, de la versión empaquetada
+ */
+
+import {
+  ServerCandidate,
+  ServerDefinition,
+  isValidServerDefinition,
+  SPEED_TEST_CONSTANTS,
+} from '../types/SpeedTest';
+import { Coordinates, haversineDistanceKm, isValidCoordinates } from '../utils/geo';
+import { createLinkedAbortController } from '../utils/abort';
+import { createSpeedTestProvider } from './providers';
+import bundledServers from '../config/servers.json';
+
+// ===============================
+// CONFIGURACIÓN
+// ===============================
+
+// Devuelve la geolocalización aproximada (por IP) del cliente
+const DEFAULT_LOCATION_URL = 'https://speed.cloudflare.com/meta';
+
+export interface ServerRegistryOptions {
+  serverListUrl?: string;
+  locationUrl?: string;
+  requestTimeoutMs?: number; // lista y geolocalización; por defecto SERVER_LIST_TIMEOUT
+}
+
+// ===============================
+// INTERFAZ DEL REGISTRO
+// ===============================
+
+export interface IServerRegistry {
+  loadServers(signal?: AbortSignal): Promise<ServerDefinition[]>;
+  rankServers(signal?: AbortSignal): Promise<ServerCandidate[]>;
+}
+
+// ===============================
+// IMPLEMENTACIÓN
+// ===============================
+
+export class ServerRegistry implements IServerRegistry {
+  private servers: ServerDefinition[] | null = null;
+  private deviceLocation?: Coordinates; // solo se guarda una ubicación obtenida
+  private options: ServerRegistryOptions;
+
+  constructor(options: ServerRegistryOptions = {}) {
+    this.options = options;
+  }
+
+  async loadServers(signal?: AbortSignal): Promise<ServerDefinition[]> {
+    if (this.servers) {
+      return this.servers;
+    }
+
+    let servers: ServerDefinition[] = [];
+
+    if (this.options.serverListUrl) {
+      try {
+        servers = parseServerList(
+          await this.fetchJson(
+            this.options.serverListUrl,
+            { headers: { 'Cache-Control': 'no-cache' } },
+            signal,
+          ),
+        );
+      } catch (error) {
+        console.warn('Failed to load server list, using bundled list:', error);
+      }
+    }
+
+    if (servers.length > 0) {
+      this.servers = servers;
+      return servers;
+    }
+
+    // Una carga cancelada no dice nada de la lista: se reintenta la próxima vez
+    const fallback = parseServerList(bundledServers);
+    if (!signal?.aborted) {
+      this.servers = fallback;
+    }
+    return fallback;
+  }
+
+  /**
+   * Mide la latencia de cada candidato y los ordena: alcanzables primero,
+   * luego por ping y, a igualdad, por distancia. Sin ubicación del
+   * dispositivo la distancia queda a 0 y solo ordena el ping
+   */
+  async rankServers(signal?: AbortSignal): Promise<ServerCandidate[]> {
+    const [servers, deviceLocation] = await Promise.all([
+      this.loadServers(signal),
+      this.getDeviceLocation(signal),
+    ]);
+
+    const candidates = await Promise.all(
+      servers.map(server => this.evaluateServer(server, deviceLocation, signal)),
+    );
+
+    if (signal?.aborted) {
+      throw new Error('Server discovery aborted');
+    }
+
+    return candidates.sort(compareCandidates);
+  }
+
+  // ===============================
+  // MÉTODOS PRIVADOS
+  // ===============================
+
+  private async evaluateServer(
+    definition: ServerDefinition,
+    deviceLocation: Coordinates | null,
+    signal?: AbortSignal,
+  ): Promise<ServerCandidate> {
+    const ping = await this.probeLatency(definition, signal);
+
+    return {
+      id: definition.id,
+      name: definition.name,
+      location: definition.location,
+      distance: this.getDistance(definition, deviceLocation),
+      ping: ping ?? 0,
+      reachable: ping !== null,
+      definition,
+    };
+  }
+
+  private async probeLatency(
+    definition: ServerDefinition,
+    signal?: AbortSignal,
+  ): Promise<number | null> {
+    const provider = createSpeedTestProvider(definition.provider ?? 'cloudflare', definition);
+    const samples: number[] = [];
+
+    for (let i = 0; i < SPEED_TEST_CONSTANTS.SERVER_PROBE_SAMPLES && !signal?.aborted; i++) {
+      const { controller, dispose } = createLinkedAbortController(signal);
+      const timer = setTimeout(
+        () => controller.abort(),
+        SPEED_TEST_CONSTANTS.SERVER_PROBE_TIMEOUT,
+      );
+      const request = provider.pingRequest();
+      const startTime = Date.now();
+
+      try {
+        const response = await fetch(request.url, {
+          ...request.init,
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          samples.push(Date.now() - startTime);
+        }
+      } catch (error) {
+        // Muestra perdida, se evalúa con las restantes
+      } finally {
+        clearTimeout(timer);
+        dispose();
+      }
+    }
+
+    // El mínimo descarta el coste de abrir la conexión en la primera muestra
+    return samples.length > 0 ? Math.min(...samples) : null;
+  }
+
+  private getDistance(
+    definition: ServerDefinition,
+    deviceLocation: Coordinates | null,
+  ): number {
+    const serverLocation = {
+      latitude: definition.latitude,
+      longitude: definition.longitude,
+    };
+
+    // Sin coordenadas (anycast o ubicación desconocida) la distancia no aplica
+    if (!deviceLocation || !isValidCoordinates(serverLocation)) {
+      return 0;
+    }
+
+    return Math.round(haversineDistanceKm(deviceLocation, serverLocation));
+  }
+
+  // Un fallo o una cancelación no se recuerda: el siguiente ranking lo reintenta
+  private async getDeviceLocation(signal?: AbortSignal): Promise<Coordinates | null> {
+    if (this.deviceLocation) {
+      return this.deviceLocation;
+    }
+
+    try {
+      const data = await this.fetchJson(
+        this.options.locationUrl ?? DEFAULT_LOCATION_URL,
+        {},
+        signal,
+      ) as { latitude?: unknown; longitude?: unknown } | null;
+      const location = {
+        latitude: Number(data?.latitude),
+        longitude: Number(data?.longitude),
+      };
+      if (isValidCoordinates(location)) {
+        this.deviceLocation = location;
+      }
+    } catch (error) {
+      // Sin ubicación se ordena solo por ping
+    }
+
+    return this.deviceLocation ?? null;
+  }
+
+  /**
+   * fetch + JSON con timeout propio: el fetch de React Native no tiene uno
+   * por defecto y una petición colgada bloquearía el descubrimiento entero
+   */
+  private async fetchJson(url: string, init: RequestInit, signal?: AbortSignal): Promise<unknown> {
+    const { controller, dispose } = createLinkedAbortController(signal);
+    const timer = setTimeout(
+      () => controller.abort(),
+      this.options.requestTimeoutMs ?? SPEED_TEST_CONSTANTS.SERVER_LIST_TIMEOUT,
+    );
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} from ${url}`);
+      }
+      // El cuerpo también puede quedarse a medias: abortar lo corta
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+      dispose();
+    }
+  }
+}
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+const parseServerList = (data: unknown): ServerDefinition[] => {
+  if (!Array.isArray(data)) return [];
+  return data.filter(isValidServerDefinition);
+};
+
+const compareCandidates = (a: ServerCandidate, b: ServerCandidate): number => {
+  if (a.reachable !== b.reachable) {
+    return a.reachable ? -1 : 1;
+  }
+  return a.ping - b.ping || a.distance - b.distance;
+};
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createServerRegistry = (options?: ServerRegistryOptions): IServerRegistry => {
+  return new ServerRegistry(options);
+};
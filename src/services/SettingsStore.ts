@@ -0,0 +1,168 @@
+/**
+ * SettingsStore - Ajustes del usuario persistidos entre sesiones
+ * Principio SOLID: Single Responsibility - Solo lee, valida y guarda TestSettings
+ *
+ * Lo guardado se valida campo a campo al leer y al escribir: un valor fuera
+ * de rango se descarta y vuelve al valor por defecto, sin tirar el resto.
+ * El almacenamiento es inyectable para poder usarlo sin AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AdvancedTestConfig,
+  DEFAULT_TEST_SETTINGS,
+  KeyValueStorage,
+  SpeedTestConfig,
+  SpeedTestProviderType,
+  SPEED_TEST_CONSTANTS,
+  SPEED_TEST_PROVIDER_TYPES,
+  TestSettings,
+} from '../types/SpeedTest';
+
+const SETTINGS_KEY = 'speedtest_settings';
+
+// ===============================
+// INTERFAZ DEL STORE
+// ===============================
+
+export interface ISettingsStore {
+  load(): Promise<TestSettings>;
+  save(settings: TestSettings): Promise<TestSettings>;
+}
+
+// ===============================
+// IMPLEMENTACIÓN
+// ===============================
+
+export class SettingsStore implements ISettingsStore {
+  constructor(private readonly storage: KeyValueStorage = AsyncStorage) {}
+
+  async load(): Promise<TestSettings> {
+    try {
+      const stored = await this.storage.getItem(SETTINGS_KEY);
+      return sanitizeSettings(stored ? JSON.parse(stored) : {});
+    } catch (error) {
+      console.warn('Failed to load settings:', error);
+      return DEFAULT_TEST_SETTINGS;
+    }
+  }
+
+  // Devuelve lo que realmente se guardó, ya sin los valores descartados
+  async save(settings: TestSettings): Promise<TestSettings> {
+    const sanitized = sanitizeSettings(settings);
+    await this.storage.setItem(SETTINGS_KEY, JSON.stringify(sanitized));
+    return sanitized;
+  }
+}
+
+// ===============================
+// CONVERSIÓN A CONFIGURACIÓN
+// ===============================
+
+/**
+ * Parte de SpeedTestConfig que fijan los ajustes; startTest la combina con
+ * la config de cada test, que tiene prioridad. Las URLs propias solo se
+ * aplican completas y siempre con su proveedor: a medias mezclarían
+ * endpoints de dos servidores. Sin duración elegida, cada fase dura lo que
+ * tarde en estabilizarse
+ */
+export const toSpeedTestConfig = (settings: TestSettings): Partial<SpeedTestConfig> => {
+  const { downloadTestUrl, uploadTestUrl, pingTestUrl, provider, ...tuning } = settings.advanced;
+  const customServer =
+    downloadTestUrl && uploadTestUrl && pingTestUrl
+      ? { downloadTestUrl, uploadTestUrl, pingTestUrl, provider: provider ?? 'cloudflare' }
+      : {};
+
+  return {
+    ...tuning,
+    ...customServer,
+    saveHistory: settings.saveHistory,
+    ...(settings.preferredServer ? { preferredServerId: settings.preferredServer } : {}),
+  };
+};
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+const sanitizeSettings = (raw: unknown): TestSettings => {
+  const value = isRecord(raw) ? raw : {};
+  const settings: TestSettings = {
+    autoStartOnLaunch:
+      typeof value.autoStartOnLaunch === 'boolean'
+        ? value.autoStartOnLaunch
+        : DEFAULT_TEST_SETTINGS.autoStartOnLaunch,
+    saveHistory:
+      typeof value.saveHistory === 'boolean' ? value.saveHistory : DEFAULT_TEST_SETTINGS.saveHistory,
+    advanced: sanitizeAdvanced(value.advanced),
+  };
+
+  if (typeof value.preferredServer === 'string' && value.preferredServer.length > 0) {
+    settings.preferredServer = value.preferredServer;
+  }
+  if (isIntegerInRange(value.testIntervalMinutes, 1, 24 * 60)) {
+    settings.testIntervalMinutes = value.testIntervalMinutes;
+  }
+  if (isIntegerInRange(value.historyRetentionDays, 1, 10 * 365)) {
+    settings.historyRetentionDays = value.historyRetentionDays;
+  }
+  if (isIntegerInRange(value.historyMaxItems, 1, 100 * 1000)) {
+    settings.historyMaxItems = value.historyMaxItems;
+  }
+  return settings;
+};
+
+const sanitizeAdvanced = (raw: unknown): AdvancedTestConfig => {
+  const value = isRecord(raw) ? raw : {};
+  const advanced: AdvancedTestConfig = {};
+
+  if (
+    isIntegerInRange(
+      value.testDuration,
+      SPEED_TEST_CONSTANTS.MIN_TEST_DURATION,
+      SPEED_TEST_CONSTANTS.MAX_TEST_DURATION,
+    )
+  ) {
+    advanced.testDuration = value.testDuration;
+  }
+  if (isIntegerInRange(value.maxConcurrentConnections, 1, SPEED_TEST_CONSTANTS.MAX_CONCURRENT_CONNECTIONS)) {
+    advanced.maxConcurrentConnections = value.maxConcurrentConnections;
+  }
+  if (isIntegerInRange(value.timeout, SPEED_TEST_CONSTANTS.MIN_TIMEOUT, SPEED_TEST_CONSTANTS.MAX_TIMEOUT)) {
+    advanced.timeout = value.timeout;
+  }
+  if (
+    isIntegerInRange(
+      value.cellularDataCapBytes,
+      SPEED_TEST_CONSTANTS.MIN_CELLULAR_DATA_CAP_BYTES,
+      SPEED_TEST_CONSTANTS.MAX_CELLULAR_DATA_CAP_BYTES,
+    )
+  ) {
+    advanced.cellularDataCapBytes = value.cellularDataCapBytes;
+  }
+  if (isHttpUrl(value.downloadTestUrl)) advanced.downloadTestUrl = value.downloadTestUrl;
+  if (isHttpUrl(value.uploadTestUrl)) advanced.uploadTestUrl = value.uploadTestUrl;
+  if (isHttpUrl(value.pingTestUrl)) advanced.pingTestUrl = value.pingTestUrl;
+  if (SPEED_TEST_PROVIDER_TYPES.includes(value.provider as SpeedTestProviderType)) {
+    advanced.provider = value.provider as SpeedTestProviderType;
+  }
+
+  return advanced;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createSettingsStore = (storage?: KeyValueStorage): ISettingsStore => {
+  return new SettingsStore(storage);
+};
@@ -16,11 +16,65 @@ import {
   NetworkInfo,
   ServerInfo,
   DeviceInfo,
+  ConnectionStats,
+  ServerCandidate,
+  ServerDefinition,
+  ThroughputSample,
+  LatencySample,
+  LatencyUnderLoad,
+  LatencyStats,
+  LossMethod,
+  RetryAttempt,
+  RetryPolicy,
+  PhaseSettings,
+  TestPhase,
+  TestWarning,
+  ConnectionTimings,
+  DEFAULT_THROUGHPUT_ESTIMATOR,
+  DEFAULT_TEST_PLAN,
+  DEFAULT_ADAPTIVE_DURATION,
   SPEED_TEST_CONSTANTS
 } from '../types/SpeedTest';
+import { createServerRegistry, IServerRegistry } from './ServerRegistry';
+import { createSpeedTestProvider, ProviderRequest, SpeedTestProvider } from './providers';
+import {
+  createWebSocketProbe,
+  IWebSocketProbe,
+  WebSocketProbeResult,
+} from './WebSocketProbe';
+import { createNetworkPreflight, INetworkPreflight } from './NetworkPreflight';
+import { createDataUsageStore, IDataUsageStore } from './DataUsageStore';
+import { createHistoryRepository, IHistoryRepository } from './HistoryRepository';
+import {
+  calculateMbps,
+  estimateThroughput,
+  isThroughputStable,
+  ThroughputMeter,
+} from '../utils/throughput';
+import { abortableSleep, createLinkedAbortController, withTimeout } from '../utils/abort';
+import { withRetry } from '../utils/retry';
+import {
+  completePhase,
+  computeProgress,
+  planPhases,
+  PlannedPhase,
+  ProgressPhase,
+  ProgressSnapshot,
+  resolvePhaseDuration,
+} from '../utils/progress';
+import {
+  classifyError,
+  createSpeedTestError,
+  errorFromHttpStatus,
+  isRetryableError,
+} from '../utils/errors';
+import {
+  computeLatencyStats,
+  gradeBufferbloat,
+  summarizeLoadedLatency,
+} from '../utils/latency';
 import NetInfo from '@react-native-community/netinfo';
 import { Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // ===============================
 // CONFIGURACIÓN POR DEFECTO
@@ -28,14 +82,114 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const DEFAULT_CONFIG: SpeedTestConfig = {
   testDuration: 10, // seconds
+  adaptiveDuration: DEFAULT_ADAPTIVE_DURATION,
+  plan: DEFAULT_TEST_PLAN,
+  provider: 'cloudflare',
+  estimator: DEFAULT_THROUGHPUT_ESTIMATOR,
   downloadTestUrl: 'https://speed.cloudflare.com/__down',
   uploadTestUrl: 'https://speed.cloudflare.com/__up',
   pingTestUrl: 'https://1.1.1.1',
   maxConcurrentConnections: 4,
+  pingSamples: SPEED_TEST_CONSTANTS.PING_SAMPLES,
   retryAttempts: 3,
   timeout: SPEED_TEST_CONSTANTS.DEFAULT_TIMEOUT,
+  cellularDataCapBytes: SPEED_TEST_CONSTANTS.CELLULAR_DATA_CAP_BYTES,
+  saveHistory: true,
+};
+
+// Tamaño pedido en cada descarga; al completarse se abre otra
+const DOWNLOAD_REQUEST_BYTES = 25 * 1024 * 1024;
+
+// Upload adaptativo: el payload crece hasta que cada POST dure lo suficiente
+const UPLOAD_INITIAL_REQUEST_BYTES = 64 * 1024;
+const UPLOAD_MAX_REQUEST_BYTES = 16 * 1024 * 1024;
+const UPLOAD_TARGET_REQUEST_MS = 1000;
+
+// Tramo del plan de progreso al que corresponde cada estado
+const PROGRESS_PHASES: Partial<Record<SpeedTestState, ProgressPhase>> = {
+  connecting: 'connecting',
+  'testing-ping': 'ping',
+  'testing-download': 'download',
+  'testing-upload': 'upload',
+};
+
+// Pausa entre pings HTTP consecutivos
+const PING_INTERVAL_MS = 100;
+
+// Velocidad instantánea: una muestra cada 200ms sobre el último segundo
+const SAMPLE_INTERVAL_MS = 200;
+const ROLLING_WINDOW_MS = 1000;
+
+// ===============================
+// TIPOS INTERNOS
+// ===============================
+
+// El fetch de React Native no tipa Response.body; solo usamos el lector
+interface ByteStreamReader {
+  read(): Promise<{ done: boolean; value?: Uint8Array }>;
+  cancel(): Promise<void>;
+  releaseLock(): void;
+}
+
+type StreamingResponse = Response & {
+  body?: { getReader(): ByteStreamReader } | null;
+};
+
+interface PingResult {
+  stats: LatencyStats;
+  samples: LatencySample[];
+  lossMethod: LossMethod;
+}
+
+// Límites efectivos de una fase de transferencia
+interface TransferLimits {
+  durationMs: number; // en modo adaptativo se recorta al estabilizarse
+  minDurationMs: number; // igual a durationMs si la duración es fija
+  adaptive: boolean;
+  connections: number;
+  maxBytes: number; // Infinity si el plan no pone tope
+}
+
+// Bytes de subida ya enviados pero sin confirmar, compartidos por las conexiones
+interface UploadReservation {
+  bytes: number;
+}
+
+interface TransferResult {
+  speed: number; // Mbps agregados
+  durationMs: number;
+  connections: ConnectionStats[];
+  samples: ThroughputSample[];
+  loadedRtts: number[]; // ping del canal lateral durante la fase
+}
+
+/**
+ * Datos incompresibles para que la compresión del transporte no infle
+ * la velocidad de subida
+ */
+const createRandomPayload = (size: number): Uint8Array => {
+  const words = new Uint32Array(Math.ceil(size / 4));
+
+  for (let i = 0; i < words.length; i++) {
+    words[i] = Math.floor(Math.random() * 0x100000000);
+  }
+
+  return new Uint8Array(words.buffer, 0, size);
 };
 
+// Host de una URL; el URL de React Native no implementa hostname
+const hostOf = (url: string): string =>
+  (/^[a-z]+:\/\/([^/?#]+)/i.exec(url)?.[1] ?? url).toLowerCase();
+
+/**
+ * Una duración pasada explícitamente a startTest es fija: sustituye a la
+ * adaptativa salvo que el llamador también indique adaptiveDuration
+ */
+const withFixedDuration = (config: Partial<SpeedTestConfig>): Partial<SpeedTestConfig> =>
+  config.testDuration !== undefined && config.adaptiveDuration === undefined
+    ? { ...config, adaptiveDuration: { ...DEFAULT_ADAPTIVE_DURATION, enabled: false } }
+    : config;
+
 // ===============================
 // INTERFAZ DEL SERVICIO
 // ===============================
@@ -46,6 +200,8 @@ export interface ISpeedTestService {
   getNetworkInfo(): Promise<NetworkInfo>;
   getDeviceInfo(): DeviceInfo;
   isTestRunning(): boolean;
+  discoverServers(serverListUrl?: string): Promise<ServerCandidate[]>;
+  getRankedServers(): ServerCandidate[];
 }
 
 // ===============================
@@ -54,12 +210,31 @@ export interface ISpeedTestService {
 
 export class SpeedTestService implements ISpeedTestService {
   private isRunning = false;
-  private shouldStop = false;
+  private abortController: AbortController | null = null;
+  private phaseController: AbortController | null = null;
+  private progressPlan: PlannedPhase[] = [];
+  private progressState: SpeedTestState | null = null;
+  private progressStateSince = 0;
   private currentConfig: SpeedTestConfig = DEFAULT_CONFIG;
+  private requestedConfig: Partial<SpeedTestConfig> = {};
+  private serverRegistry: IServerRegistry | null = null;
+  private serverListUrl?: string;
+  private rankedServers: ServerCandidate[] = [];
+  private provider: SpeedTestProvider = this.createProvider(DEFAULT_CONFIG);
+  private webSocketProbe: IWebSocketProbe = createWebSocketProbe();
+  private networkPreflight: INetworkPreflight = createNetworkPreflight();
+  private dataUsageStore: IDataUsageStore = createDataUsageStore();
+  private historyRepository: IHistoryRepository;
+  private transferred = { downloaded: 0, uploaded: 0 };
+  private dataBudgetBytes = Infinity;
   private progressCallback?: (progress: SpeedTestProgress) => void;
 
-  constructor(progressCallback?: (progress: SpeedTestProgress) => void) {
+  constructor(
+    progressCallback?: (progress: SpeedTestProgress) => void,
+    historyRepository: IHistoryRepository = createHistoryRepository()
+  ) {
     this.progressCallback = progressCallback;
+    this.historyRepository = historyRepository;
   }
 
   // ===============================
@@ -68,44 +243,71 @@ export class SpeedTestService implements ISpeedTestService {
 
   async startTest(config?: Partial<SpeedTestConfig>): Promise<SpeedTestResult> {
     if (this.isRunning) {
-      throw this.createError('unknown-error', 'Test already running');
+      throw createSpeedTestError('unknown-error', 'Test already running');
     }
 
-    this.currentConfig = { ...DEFAULT_CONFIG, ...config };
+    this.requestedConfig = withFixedDuration(config ?? {});
+    this.currentConfig = { ...DEFAULT_CONFIG, ...this.requestedConfig };
+    this.provider = this.createProvider(this.currentConfig);
+    this.progressPlan = planPhases(this.currentConfig);
+    this.progressState = null;
+    this.transferred = { downloaded: 0, uploaded: 0 };
+    this.dataBudgetBytes = Infinity;
     this.isRunning = true;
-    this.shouldStop = false;
+    this.abortController = new AbortController();
+    let networkType: NetworkInfo['type'] = 'unknown';
 
     try {
       // Validar conectividad
+      this.updateProgress('connecting', { step: 'network-check' });
       const networkInfo = await this.getNetworkInfo();
       if (!networkInfo.isConnected) {
-        throw this.createError('network-unavailable', 'No network connection');
+        throw createSpeedTestError('network-unavailable', 'No network connection');
       }
 
+      // El tope de datos solo aplica en datos móviles
+      networkType = networkInfo.type;
+      this.dataBudgetBytes =
+        networkType === 'cellular'
+          ? this.currentConfig.cellularDataCapBytes ?? Infinity
+          : Infinity;
+
       // Obtener información del dispositivo
       const deviceInfo = this.getDeviceInfo();
 
       // Ejecutar secuencia de tests
       const result = await this.executeTestSequence(networkInfo, deviceInfo);
       
-      // Guardar resultado
-      await this.saveTestResult(result);
+      // Guardar resultado, salvo que el usuario haya desactivado el historial
+      if (this.currentConfig.saveHistory) {
+        await this.saveTestResult(result);
+      }
       
       return result;
 
     } catch (error) {
-      this.updateProgress('error', 0);
-      throw error;
+      // Cualquier fallo posterior a stopTest es consecuencia de la cancelación
+      if (this.isCancelled()) {
+        this.updateProgress('cancelled');
+        throw createSpeedTestError('cancelled', 'Test was cancelled');
+      }
+      this.updateProgress('error');
+      throw await this.classifyFailure(error);
     } finally {
+      // Los datos se consumieron aunque el test fallara o se cancelara
+      const { downloaded, uploaded } = this.transferred;
+      await this.dataUsageStore.recordUsage(downloaded + uploaded, networkType);
       this.isRunning = false;
-      this.shouldStop = false;
+      this.abortController = null;
     }
   }
 
+  /**
+   * Aborta de inmediato todas las peticiones, lecturas y esperas en curso;
+   * startTest rechaza entonces con un error de tipo 'cancelled'
+   */
   stopTest(): void {
-    this.shouldStop = true;
-    this.isRunning = false;
-    this.updateProgress('idle', 0);
+    this.abortController?.abort();
   }
 
   async getNetworkInfo(): Promise<NetworkInfo> {
@@ -133,6 +335,15 @@ export class SpeedTestService implements ISpeedTestService {
     return this.isRunning;
   }
 
+  async discoverServers(serverListUrl?: string): Promise<ServerCandidate[]> {
+    this.rankedServers = await this.getServerRegistry(serverListUrl).rankServers(this.signal);
+    return this.rankedServers;
+  }
+
+  getRankedServers(): ServerCandidate[] {
+    return this.rankedServers;
+  }
+
   // ===============================
   // MÉTODOS PRIVADOS - SECUENCIA DE TESTS
   // ===============================
@@ -143,193 +354,799 @@ export class SpeedTestService implements ISpeedTestService {
   ): Promise<SpeedTestResult> {
     
     const testId = this.generateTestId();
-    const serverInfo = await this.selectBestServer();
+    const warnings = await this.runPreflight();
+
+    // 0. Conexión: servidor, handshake y calentamiento
+    this.updateProgress('connecting', { step: 'server-discovery' });
+    const server = this.hasCustomEndpoints()
+      ? this.createCustomServer()
+      : await this.selectBestServer();
+    this.applyServer(server.definition);
+    const serverInfo = this.toServerInfo(server);
+    const connectionTimings = await this.measureConnectionTimings();
+    const publicIp = await this.fetchPublicIp();
+    this.throwIfCancelled();
+
+    // 1. Fases del plan, en su orden; las que no están quedan sin medir
+    let pingResult: PingResult | undefined;
+    let download: TransferResult | undefined;
+    let upload: TransferResult | undefined;
+    const skippedPhases: TestPhase[] = [];
+
+    for (const settings of this.currentConfig.plan.phases) {
+      if (settings.phase !== 'ping' && this.getRemainingDataBudget() <= 0) {
+        skippedPhases.push(settings.phase);
+        continue;
+      }
 
-    // 1. Test de Ping
-    this.updateProgress('testing-ping', 10);
-    const pingResult = await this.testPing(serverInfo);
-    this.checkShouldStop();
+      switch (settings.phase) {
+        case 'ping':
+          this.updateProgress('testing-ping');
+          pingResult = await this.runPhase(settings, () => this.testPing());
+          break;
+        case 'download':
+          this.updateProgress('testing-download');
+          download = await this.runPhase(settings, () => this.testDownload(settings));
+          break;
+        case 'upload':
+          this.updateProgress('testing-upload');
+          upload = await this.runPhase(settings, () => this.testUpload(settings));
+          break;
+      }
+      this.throwIfCancelled();
+    }
 
-    // 2. Test de Download
-    this.updateProgress('testing-download', 30);
-    const downloadSpeed = await this.testDownload();
-    this.checkShouldStop();
+    this.updateProgress('completed');
 
-    // 3. Test de Upload  
-    this.updateProgress('testing-upload', 70);
-    const uploadSpeed = await this.testUpload();
-    this.checkShouldStop();
+    if (this.getRemainingDataBudget() <= 0) {
+      warnings.push('data-cap-reached');
+    }
 
-    this.updateProgress('completed', 100);
+    // Sin ping en reposo no hay referencia para la latencia bajo carga
+    const latency: LatencyUnderLoad | undefined = pingResult && {
+      idle: Math.round(pingResult.stats.median),
+      download: download ? summarizeLoadedLatency(download.loadedRtts) : null,
+      upload: upload ? summarizeLoadedLatency(upload.loadedRtts) : null,
+    };
 
     return {
       id: testId,
       timestamp: new Date(),
-      downloadSpeed: downloadSpeed,
-      uploadSpeed: uploadSpeed,
-      ping: pingResult.ping,
-      jitter: pingResult.jitter,
-      packetLoss: pingResult.packetLoss,
+      downloadSpeed: download?.speed ?? 0,
+      uploadSpeed: upload?.speed ?? 0,
+      ping: pingResult ? Math.round(pingResult.stats.median) : 0,
+      jitter: pingResult ? Math.round(pingResult.stats.jitter) : 0,
+      packetLoss: pingResult?.stats.lossRate ?? 0,
       serverInfo,
       deviceInfo,
-      networkInfo,
+      networkInfo: { ...networkInfo, publicIp },
+      downloadConnections: download?.connections,
+      uploadConnections: upload?.connections,
+      downloadSamples: download?.samples,
+      uploadSamples: upload?.samples,
+      pingSamples: pingResult?.samples,
+      estimator: this.currentConfig.estimator,
+      unitSystem: 'si',
+      latency,
+      bufferbloatGrade: latency ? gradeBufferbloat(latency) : null,
+      latencyStats: pingResult?.stats,
+      lossMethod: pingResult?.lossMethod,
+      warnings,
+      connectionTimings,
+      testPlan: this.currentConfig.plan,
+      bytesDownloaded: this.transferred.downloaded,
+      bytesUploaded: this.transferred.uploaded,
+      downloadDurationMs: download?.durationMs,
+      uploadDurationMs: upload?.durationMs,
+      skippedPhases: skippedPhases.length > 0 ? skippedPhases : undefined,
+    };
+  }
+
+  /**
+   * Aborta el test si la red está tras un portal cautivo (mediría la página
+   * de login); un proxy transparente solo se anota como aviso
+   */
+  private async runPreflight(): Promise<TestWarning[]> {
+    const preflight = await this.networkPreflight.run(this.signal);
+    this.throwIfCancelled();
+
+    if (preflight.status === 'captive-portal') {
+      throw createSpeedTestError('captive-portal', 'Connectivity check was intercepted', {
+        redirectedTo: preflight.redirectedTo,
+      });
+    }
+
+    return preflight.proxyHeaders.length > 0 ? ['transparent-proxy'] : [];
+  }
+
+  /**
+   * Ejecuta una fase con reintentos y con un presupuesto de tiempo por
+   * intento. Si todos fallan, el error del último lleva en details la fase
+   * y la lista de intentos
+   */
+  private async runPhase<T>(settings: PhaseSettings, operation: () => Promise<T>): Promise<T> {
+    const { phase } = settings;
+    const attempts: RetryAttempt[] = [];
+    const policy: RetryPolicy = {
+      retries: this.currentConfig.retryAttempts,
+      baseDelayMs: SPEED_TEST_CONSTANTS.RETRY_BASE_DELAY,
+      maxDelayMs: SPEED_TEST_CONSTANTS.RETRY_MAX_DELAY,
+    };
+
+    try {
+      return await withRetry(() => this.runWithPhaseBudget(settings, operation), policy, {
+        signal: this.abortController?.signal,
+        isRetryable: error => !this.isCancelled() && isRetryableError(classifyError(error)),
+        onFailedAttempt: (error, attempt, delayMs) => {
+          const info = classifyError(error);
+          attempts.push({ attempt, errorType: info.type, message: info.message, delayMs });
+        },
+      });
+    } catch (error) {
+      this.throwIfCancelled();
+      const info = classifyError(error);
+      throw { ...info, details: { ...info.details, phase, attempts } };
+    }
+  }
+
+  // Al agotar el presupuesto se abortan las peticiones que sigan en vuelo
+  private async runWithPhaseBudget<T>(
+    settings: PhaseSettings,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const { phase } = settings;
+    const budgetMs = this.getPhaseBudgetMs(settings);
+    const { controller, dispose } = createLinkedAbortController(this.abortController?.signal);
+    this.phaseController = controller;
+
+    try {
+      return await withTimeout(operation(), budgetMs, () => {
+        controller.abort();
+        return createSpeedTestError('timeout', `The ${phase} phase exceeded ${budgetMs}ms`, {
+          phase,
+          budgetMs,
+        });
+      });
+    } finally {
+      dispose();
+      this.phaseController = null;
+    }
+  }
+
+  // Duración nominal de la fase más un timeout de margen
+  private getPhaseBudgetMs(settings: PhaseSettings): number {
+    if (settings.phase === 'ping') {
+      return this.getPingBudgetMs();
+    }
+    return this.getTransferLimits(settings).durationMs + this.currentConfig.timeout;
+  }
+
+  /**
+   * Cada ping HTTP puede agotar su propio timeout. Con sonda WebSocket se
+   * suma lo que tarda en el peor caso (apertura, envíos y espera del último
+   * eco), que precede al posible fallback HTTP
+   */
+  private getPingBudgetMs(): number {
+    const { pingSamples, timeout, pingWebSocketUrl } = this.currentConfig;
+    const samples = Math.max(1, pingSamples);
+    const httpMs = samples * (PING_INTERVAL_MS + timeout);
+
+    if (!pingWebSocketUrl) {
+      return httpMs;
+    }
+    const webSocketMs =
+      2 * SPEED_TEST_CONSTANTS.WEBSOCKET_PING_TIMEOUT +
+      samples * SPEED_TEST_CONSTANTS.WEBSOCKET_PING_INTERVAL;
+    return webSocketMs + httpMs;
+  }
+
+  // La misma resolución de duraciones que usa el plan de progreso
+  private getTransferLimits(settings: PhaseSettings): TransferLimits {
+    const { minMs, maxMs, adaptive } = resolvePhaseDuration(settings, this.currentConfig);
+
+    return {
+      durationMs: maxMs,
+      minDurationMs: minMs,
+      adaptive,
+      connections: Math.max(
+        1,
+        settings.connections ?? this.currentConfig.maxConcurrentConnections,
+      ),
+      maxBytes: Math.min(settings.maxBytes ?? Infinity, this.getRemainingDataBudget()),
+    };
+  }
+
+  // Bytes que el tope de datos móviles aún permite transferir en este test
+  private getRemainingDataBudget(): number {
+    const { downloaded, uploaded } = this.transferred;
+    return Math.max(0, this.dataBudgetBytes - downloaded - uploaded);
+  }
+
+  /**
+   * Dos peticiones vacías seguidas al host de transferencia: la primera abre
+   * la conexión (handshake) y la segunda la reutiliza (calentamiento). La
+   * diferencia aproxima el coste de conectar; la segunda, el TTFB. Si el
+   * descubrimiento ya hizo ping a ese host, la primera tampoco va en frío y
+   * el coste de conectar queda sin medir
+   */
+  private async measureConnectionTimings(): Promise<ConnectionTimings> {
+    const transferHost = hostOf(this.currentConfig.uploadTestUrl);
+    const alreadyContacted = this.rankedServers.some(
+      candidate => hostOf(candidate.definition.pingUrl) === transferHost,
+    );
+
+    this.updateProgress('connecting', { step: 'handshake' });
+    const coldMs = await this.timeToHeaders();
+
+    this.updateProgress('connecting', { step: 'warm-up' });
+    const warmMs = await this.timeToHeaders();
+
+    return {
+      connectMs:
+        !alreadyContacted && coldMs !== null && warmMs !== null
+          ? Math.max(0, coldMs - warmMs)
+          : null,
+      ttfbMs: warmMs,
     };
   }
 
+  // El endpoint de subida responde vacío en todos los proveedores
+  private async timeToHeaders(): Promise<number | null> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.send(this.provider.uploadRequest(new Uint8Array(0)));
+      const elapsedMs = Date.now() - startTime;
+      // Consumir el cuerpo deja la conexión libre para reutilizarla
+      await response.text().catch(() => undefined);
+      return response.ok ? elapsedMs : null;
+    } catch (error) {
+      this.throwIfCancelled();
+      return null;
+    }
+  }
+
   // ===============================
   // IMPLEMENTACIÓN DE TESTS INDIVIDUALES
   // ===============================
 
-  private async testPing(server: ServerInfo): Promise<{
-    ping: number;
-    jitter: number;
-    packetLoss: number;
-  }> {
-    const pings: number[] = [];
-    const samples = SPEED_TEST_CONSTANTS.PING_SAMPLES;
+  private async testPing(): Promise<PingResult> {
+    const webSocketUrl = this.currentConfig.pingWebSocketUrl;
+    const probe = webSocketUrl ? await this.runWebSocketProbe(webSocketUrl) : null;
+
+    return probe ? this.toWebSocketPingResult(probe) : this.testPingHttp();
+  }
+
+  /**
+   * null si la conexión no llegó a abrirse (el servidor no ofrece eco
+   * WebSocket) y hay que medir por HTTP. Abierta, cualquier fallo posterior
+   * ya es pérdida medida, incluso si no volvió ningún eco
+   */
+  private async runWebSocketProbe(url: string): Promise<WebSocketProbeResult | null> {
+    try {
+      return await this.webSocketProbe.run({
+        url,
+        count: Math.max(1, this.currentConfig.pingSamples),
+        intervalMs: SPEED_TEST_CONSTANTS.WEBSOCKET_PING_INTERVAL,
+        timeoutMs: SPEED_TEST_CONSTANTS.WEBSOCKET_PING_TIMEOUT,
+        signal: this.signal,
+      });
+    } catch (error) {
+      this.throwIfCancelled();
+      return null;
+    }
+  }
+
+  private toWebSocketPingResult(probe: WebSocketProbeResult): PingResult {
+    return {
+      stats: computeLatencyStats(probe.rtts, probe.sent),
+      samples: probe.samples,
+      lossMethod: 'packet',
+    };
+  }
+
+  private async testPingHttp(): Promise<PingResult> {
+    const rtts: number[] = [];
+    const pingSamples: LatencySample[] = [];
+    const samples = Math.max(1, this.currentConfig.pingSamples);
+    const phaseStart = Date.now();
 
     for (let i = 0; i < samples; i++) {
-      this.checkShouldStop();
+      this.throwIfCancelled();
       
+      const request = this.provider.pingRequest();
       const startTime = Date.now();
       
       try {
-        const response = await fetch(this.currentConfig.pingTestUrl, {
-          method: 'HEAD',
-          cache: 'no-cache',
-        });
+        const response = await this.send(request);
         
         if (response.ok) {
-          const ping = Date.now() - startTime;
-          pings.push(ping);
+          const rtt = Date.now() - startTime;
+          rtts.push(rtt);
+          pingSamples.push({ elapsedMs: startTime - phaseStart, rtt });
         }
       } catch (error) {
         // Ping failed, skip this sample
+        this.throwIfCancelled();
       }
 
       // Small delay between pings
-      await this.sleep(100);
+      this.updateProgress('testing-ping');
+      await this.sleep(PING_INTERVAL_MS);
     }
 
-    if (pings.length === 0) {
-      throw this.createError('server-unreachable', 'Could not reach ping server');
+    if (rtts.length === 0) {
+      throw createSpeedTestError('server-unreachable', 'Could not reach ping server');
     }
 
-    const avgPing = pings.reduce((a, b) => a + b) / pings.length;
-    const jitter = this.calculateJitter(pings);
-    const packetLoss = ((samples - pings.length) / samples) * 100;
-
     return {
-      ping: Math.round(avgPing),
-      jitter: Math.round(jitter),
-      packetLoss: Math.round(packetLoss * 10) / 10,
+      stats: computeLatencyStats(rtts, samples),
+      samples: pingSamples,
+      lossMethod: 'request-failure',
     };
   }
 
-  private async testDownload(): Promise<number> {
+  private async testDownload(settings: PhaseSettings): Promise<TransferResult> {
     const startTime = Date.now();
-    const duration = this.currentConfig.testDuration * 1000;
-    let totalBytes = 0;
+    const limits = this.getTransferLimits(settings);
+    const connections: ConnectionStats[] = Array.from(
+      { length: limits.connections },
+      (_, id) => ({ id, bytes: 0, requests: 0, speed: 0 }),
+    );
 
-    try {
-      const response = await fetch(this.currentConfig.downloadTestUrl);
-      const reader = response.body?.getReader();
-      
-      if (!reader) {
-        throw new Error('Could not create reader');
+    const meter = new ThroughputMeter(startTime);
+    const samples: ThroughputSample[] = [];
+    const stopLatencyProbe = this.startLoadedLatencyProbe();
+    const stopSampling = this.startSampling(
+      'testing-download', meter, samples, startTime, limits,
+    );
+
+    // Todas las conexiones comparten deadline y tope de bytes; cada una se
+    // reinicia si el servidor termina de enviar antes de agotar la duración
+    const outcomes = await Promise.allSettled(
+      connections.map(connection =>
+        this.runDownloadConnection(connection, meter, startTime, limits),
+      ),
+    ).finally(stopSampling);
+    const loadedRtts = stopLatencyProbe();
+    this.throwIfCancelled();
+
+    const elapsedMs = Date.now() - startTime;
+    const totalBytes = connections.reduce((sum, c) => sum + c.bytes, 0);
+
+    if (totalBytes === 0 || outcomes.every(o => o.status === 'rejected')) {
+      throw this.toTransferError(outcomes, 'Download test failed');
+    }
+
+    connections.forEach(connection => {
+      connection.speed = this.toMbps(connection.bytes, elapsedMs);
+    });
+
+    return {
+      speed: this.estimateSpeed(meter, elapsedMs),
+      durationMs: elapsedMs,
+      connections,
+      samples,
+      loadedRtts,
+    };
+  }
+
+  private async runDownloadConnection(
+    connection: ConnectionStats,
+    meter: ThroughputMeter,
+    startTime: number,
+    limits: TransferLimits,
+  ): Promise<void> {
+    const remainingBytes = () => limits.maxBytes - meter.totalBytes;
+    const hasTimeLeft = () =>
+      Date.now() - startTime < limits.durationMs && remainingBytes() > 0 && !this.isCancelled();
+
+    while (hasTimeLeft()) {
+      const requestBytes = Math.min(DOWNLOAD_REQUEST_BYTES, remainingBytes());
+      const response = await this.send(this.provider.downloadRequest(requestBytes));
+
+      if (!response.ok) {
+        throw errorFromHttpStatus(response.status, response.url);
       }
 
-      while (Date.now() - startTime < duration && !this.shouldStop) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        totalBytes += value?.length || 0;
-        
-        // Update progress
-        const progress = 30 + ((Date.now() - startTime) / duration) * 40;
-        this.updateProgress('testing-download', Math.min(progress, 70));
+      const reader = (response as StreamingResponse).body?.getReader();
+      if (!reader) {
+        throw createSpeedTestError(
+          'reader-unsupported',
+          'Response body cannot be read as a stream',
+        );
       }
 
-      reader.releaseLock();
-      
-    } catch (error) {
-      throw this.createError('server-unreachable', 'Download test failed');
-    }
+      connection.requests += 1;
+      let finished = false;
 
-    // Calculate speed in Mbps
-    const timeSeconds = (Date.now() - startTime) / 1000;
-    const bitsPerSecond = (totalBytes * 8) / timeSeconds;
-    const mbps = bitsPerSecond / (1024 * 1024);
+      // Una lectura bloqueada no siempre se despierta al abortar el fetch
+      const cancelRead = () => {
+        reader.cancel().catch(() => undefined);
+      };
+      this.signal?.addEventListener('abort', cancelRead);
 
-    return Math.round(mbps * 100) / 100;
+      try {
+        while (hasTimeLeft()) {
+          const { done, value } = await this.readWithTimeout(reader);
+
+          if (done) {
+            finished = true;
+            break;
+          }
+
+          const bytes = value?.length || 0;
+          connection.bytes += bytes;
+          this.transferred.downloaded += bytes;
+          meter.record(bytes);
+        }
+      } finally {
+        this.signal?.removeEventListener('abort', cancelRead);
+        if (finished) {
+          reader.releaseLock();
+        } else {
+          // Se agotó el tiempo con la respuesta a medias: cerrar la conexión
+          reader.cancel().catch(() => undefined);
+        }
+      }
+    }
   }
 
-  private async testUpload(): Promise<number> {
+  private async testUpload(settings: PhaseSettings): Promise<TransferResult> {
+    // Un único buffer aleatorio compartido: cada petición envía un prefijo.
+    // Se genera antes de arrancar el reloj para no restar tiempo a la fase
+    const payload = createRandomPayload(UPLOAD_MAX_REQUEST_BYTES);
+
     const startTime = Date.now();
-    const duration = this.currentConfig.testDuration * 1000;
-    const chunkSize = 32 * 1024; // 32KB chunks
-    let totalBytes = 0;
+    const limits = this.getTransferLimits(settings);
+    const connections: ConnectionStats[] = Array.from(
+      { length: limits.connections },
+      (_, id) => ({ id, bytes: 0, requests: 0, speed: 0 }),
+    );
 
-    // Generate test data
-    const testData = new Uint8Array(chunkSize).fill(65); // Fill with 'A'
+    const meter = new ThroughputMeter(startTime);
+    const samples: ThroughputSample[] = [];
+    const stopLatencyProbe = this.startLoadedLatencyProbe();
+    const stopSampling = this.startSampling(
+      'testing-upload', meter, samples, startTime, limits,
+    );
+    const reservation: UploadReservation = { bytes: 0 };
 
-    try {
-      while (Date.now() - startTime < duration && !this.shouldStop) {
-        const response = await fetch(this.currentConfig.uploadTestUrl, {
-          method: 'POST',
-          body: testData,
-          headers: {
-            'Content-Type': 'application/octet-stream',
-          },
-        });
+    const outcomes = await Promise.allSettled(
+      connections.map(connection =>
+        this.runUploadConnection(connection, meter, payload, startTime, limits, reservation),
+      ),
+    ).finally(stopSampling);
+    const loadedRtts = stopLatencyProbe();
+    this.throwIfCancelled();
 
-        if (response.ok) {
-          totalBytes += chunkSize;
-        }
+    const elapsedMs = Date.now() - startTime;
+    const totalBytes = connections.reduce((sum, c) => sum + c.bytes, 0);
+
+    if (totalBytes === 0 || outcomes.every(o => o.status === 'rejected')) {
+      throw this.toTransferError(outcomes, 'Upload test failed');
+    }
+
+    connections.forEach(connection => {
+      connection.speed = this.toMbps(connection.bytes, elapsedMs);
+    });
+
+    return {
+      speed: this.estimateSpeed(meter, elapsedMs),
+      durationMs: elapsedMs,
+      connections,
+      samples,
+      loadedRtts,
+    };
+  }
+
+  private async runUploadConnection(
+    connection: ConnectionStats,
+    meter: ThroughputMeter,
+    payload: Uint8Array,
+    startTime: number,
+    limits: TransferLimits,
+    reservation: UploadReservation,
+  ): Promise<void> {
+    let requestBytes = UPLOAD_INITIAL_REQUEST_BYTES;
+    // Lo que otras conexiones tienen en vuelo también cuenta contra el tope
+    const remainingBytes = () => limits.maxBytes - meter.totalBytes - reservation.bytes;
+
+    while (
+      Date.now() - startTime < limits.durationMs &&
+      remainingBytes() > 0 &&
+      !this.isCancelled()
+    ) {
+      const body = payload.subarray(0, Math.min(requestBytes, remainingBytes()));
+      const requestStart = Date.now();
 
-        // Update progress
-        const progress = 70 + ((Date.now() - startTime) / duration) * 25;
-        this.updateProgress('testing-upload', Math.min(progress, 95));
+      // Reservado hasta que el servidor responda; si falla, se libera sin contarlo
+      reservation.bytes += body.length;
+      let response: Response;
+      try {
+        response = await this.send(this.provider.uploadRequest(body));
+      } finally {
+        reservation.bytes -= body.length;
       }
 
-    } catch (error) {
-      throw this.createError('server-unreachable', 'Upload test failed');
-    }
+      connection.requests += 1;
+
+      if (!response.ok) {
+        throw errorFromHttpStatus(response.status, response.url);
+      }
 
-    // Calculate speed in Mbps
-    const timeSeconds = (Date.now() - startTime) / 1000;
-    const bitsPerSecond = (totalBytes * 8) / timeSeconds;
-    const mbps = bitsPerSecond / (1024 * 1024);
+      // Solo cuentan los bytes que el servidor confirmó
+      connection.bytes += body.length;
+      this.transferred.uploaded += body.length;
+      meter.recordSpan(body.length, requestStart);
 
-    return Math.round(mbps * 100) / 100;
+      // Duplicar el payload mientras las peticiones sean demasiado cortas
+      // para llenar el enlace; así medimos ancho de banda y no latencia
+      const requestMs = Date.now() - requestStart;
+      if (requestMs < UPLOAD_TARGET_REQUEST_MS) {
+        requestBytes = Math.min(requestBytes * 2, UPLOAD_MAX_REQUEST_BYTES);
+      }
+    }
   }
 
   // ===============================
   // MÉTODOS UTILITARIOS
   // ===============================
 
-  private async selectBestServer(): Promise<ServerInfo> {
-    // TODO: Implement server selection logic
-    // For now, return a default server
+  // El servidor preferido gana aunque no sea el más rápido, siempre que responda
+  private async selectBestServer(): Promise<ServerCandidate> {
+    const { serverListUrl, preferredServerId } = this.currentConfig;
+    const ranked = await this.discoverServers(serverListUrl);
+    const reachable = ranked.filter(candidate => candidate.reachable);
+    const best = reachable.find(candidate => candidate.id === preferredServerId) ?? reachable[0];
+
+    if (!best) {
+      throw createSpeedTestError('server-unreachable', 'No test server is reachable');
+    }
+
+    return best;
+  }
+
+  private hasCustomEndpoints(): boolean {
+    const { downloadTestUrl, uploadTestUrl, pingTestUrl } = this.requestedConfig;
+    return Boolean(downloadTestUrl || uploadTestUrl || pingTestUrl);
+  }
+
+  /**
+   * Con URLs propias no hay nada que descubrir: el servidor son esas URLs
+   * con el proveedor de la config, nunca mezcladas con las de otro servidor
+   */
+  private createCustomServer(): ServerCandidate {
+    const { provider, downloadTestUrl, uploadTestUrl, pingTestUrl, pingWebSocketUrl } =
+      this.currentConfig;
+    const host = hostOf(downloadTestUrl);
+
     return {
-      id: 'cloudflare-1',
-      name: 'Cloudflare',
-      location: 'Global CDN',
+      id: 'custom',
+      name: 'Custom server',
+      location: host,
       distance: 0,
       ping: 0,
+      reachable: true,
+      definition: {
+        id: 'custom',
+        name: 'Custom server',
+        location: host,
+        provider,
+        downloadUrl: downloadTestUrl,
+        uploadUrl: uploadTestUrl,
+        pingUrl: pingTestUrl,
+        webSocketUrl: pingWebSocketUrl,
+      },
     };
   }
 
-  private calculateJitter(pings: number[]): number {
-    if (pings.length < 2) return 0;
-    
-    let jitterSum = 0;
-    for (let i = 1; i < pings.length; i++) {
-      jitterSum += Math.abs(pings[i] - pings[i - 1]);
+  // Las URLs y el proveedor del servidor elegido sustituyen a los de
+  // DEFAULT_CONFIG, pero nunca a los que el llamador pasó a startTest
+  private applyServer(server: ServerDefinition): void {
+    this.currentConfig = {
+      ...DEFAULT_CONFIG,
+      provider: server.provider ?? DEFAULT_CONFIG.provider,
+      downloadTestUrl: server.downloadUrl,
+      uploadTestUrl: server.uploadUrl,
+      pingTestUrl: server.pingUrl,
+      pingWebSocketUrl: server.webSocketUrl,
+      ...this.requestedConfig,
+    };
+    this.provider = this.createProvider(this.currentConfig);
+  }
+
+  private createProvider(config: SpeedTestConfig): SpeedTestProvider {
+    return createSpeedTestProvider(config.provider, {
+      downloadUrl: config.downloadTestUrl,
+      uploadUrl: config.uploadTestUrl,
+      pingUrl: config.pingTestUrl,
+    });
+  }
+
+  /**
+   * fetch con el timeout por petición de la configuración. Cubre hasta
+   * recibir las cabeceras; la lectura del cuerpo se vigila en readWithTimeout
+   */
+  private async send(request: ProviderRequest): Promise<Response> {
+    const timeoutMs = this.currentConfig.timeout;
+    const { controller, dispose } = createLinkedAbortController(this.signal);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await fetch(request.url, { ...request.init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw createSpeedTestError('timeout', `Request timed out after ${timeoutMs}ms`, {
+          url: request.url,
+          timeoutMs,
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      dispose();
+    }
+  }
+
+  // Un servidor que deja de enviar a mitad de respuesta deja read() colgado
+  private readWithTimeout(reader: ByteStreamReader): ReturnType<ByteStreamReader['read']> {
+    const timeoutMs = this.currentConfig.timeout;
+
+    return withTimeout(reader.read(), timeoutMs, () =>
+      createSpeedTestError('timeout', `No data received for ${timeoutMs}ms`, { timeoutMs }),
+    );
+  }
+
+  // La fase falla con la causa de la primera conexión que dejó una
+  // clasificable; si ninguna falló de forma reconocible, servidor inaccesible
+  private toTransferError(
+    outcomes: PromiseSettledResult<void>[],
+    message: string,
+  ): SpeedTestErrorInfo {
+    const cause = outcomes
+      .flatMap(o => (o.status === 'rejected' ? [classifyError(o.reason)] : []))
+      .find(info => info.type !== 'unknown-error');
+
+    return cause ?? createSpeedTestError('server-unreachable', message);
+  }
+
+  /**
+   * Clasifica el error final del test. Un fallo de red genérico con el
+   * dispositivo ya desconectado se informa como 'offline'
+   */
+  private async classifyFailure(error: unknown): Promise<SpeedTestErrorInfo> {
+    const info = classifyError(error);
+    const networkDependent: SpeedTestError[] = ['server-unreachable', 'timeout', 'unknown-error'];
+
+    if (!networkDependent.includes(info.type)) {
+      return info;
+    }
+
+    try {
+      const { isConnected } = await this.getNetworkInfo();
+      return isConnected
+        ? info
+        : { ...info, type: 'offline', message: 'Network connection lost during the test' };
+    } catch (netInfoError) {
+      return info;
+    }
+  }
+
+  private async fetchPublicIp(): Promise<string | undefined> {
+    const request = this.provider.clientIpRequest();
+    if (!request) return undefined;
+
+    try {
+      const response = await this.send(request);
+      if (!response.ok) return undefined;
+      return this.provider.parseClientIp(await response.text()) ?? undefined;
+    } catch (error) {
+      // Dato informativo: no debe hacer fallar el test
+      return undefined;
+    }
+  }
+
+  private toServerInfo(candidate: ServerCandidate): ServerInfo {
+    return {
+      id: candidate.id,
+      name: candidate.name,
+      location: candidate.location,
+      distance: candidate.distance,
+      ping: candidate.ping,
+    };
+  }
+
+  private getServerRegistry(serverListUrl?: string): IServerRegistry {
+    if (!this.serverRegistry || this.serverListUrl !== serverListUrl) {
+      this.serverRegistry = createServerRegistry({ serverListUrl });
+      this.serverListUrl = serverListUrl;
+    }
+    return this.serverRegistry;
+  }
+
+  private toMbps(bytes: number, elapsedMs: number): number {
+    return Math.round(calculateMbps(bytes, elapsedMs) * 100) / 100;
+  }
+
+  private estimateSpeed(meter: ThroughputMeter, elapsedMs: number): number {
+    const mbps = estimateThroughput(meter, this.currentConfig.estimator, elapsedMs);
+    return Math.round(mbps * 100) / 100;
+  }
+
+  /**
+   * Ping por un canal lateral mientras dura una fase de carga; la función
+   * devuelta detiene el bucle y entrega los RTT recogidos hasta ese momento
+   */
+  private startLoadedLatencyProbe(): () => number[] {
+    const rtts: number[] = [];
+    let active = true;
+
+    const probe = async () => {
+      while (active && !this.isCancelled()) {
+        const startTime = Date.now();
+        try {
+          const response = await this.send(this.provider.pingRequest());
+          if (response.ok && active) {
+            rtts.push(Date.now() - startTime);
+          }
+        } catch (error) {
+          // Con el enlace saturado se pierden pings; no invalida la fase
+        }
+        await this.sleep(SPEED_TEST_CONSTANTS.LOADED_PING_INTERVAL).catch(() => undefined);
+      }
+    };
+    probe();
+
+    return () => {
+      active = false;
+      return [...rtts];
+    };
+  }
+
+  /**
+   * Emite cada SAMPLE_INTERVAL_MS la velocidad de la ventana deslizante
+   * (y con ella el progreso); devuelve la función para detenerlo
+   */
+  private startSampling(
+    state: SpeedTestState,
+    meter: ThroughputMeter,
+    samples: ThroughputSample[],
+    startTime: number,
+    limits: TransferLimits,
+  ): () => void {
+    const timer = setInterval(() => {
+      const elapsedMs = Date.now() - startTime;
+      const mbps = Math.round(meter.rollingMbps(ROLLING_WINDOW_MS) * 100) / 100;
+
+      samples.push({ elapsedMs, mbps });
+      this.stopWhenStable(limits, samples, elapsedMs);
+      this.updateProgress(state, { currentSpeed: mbps });
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  // Modo adaptativo: recortar el deadline en cuanto la velocidad se estabiliza
+  private stopWhenStable(
+    limits: TransferLimits,
+    samples: ThroughputSample[],
+    elapsedMs: number,
+  ): void {
+    const { windowMs, tolerance } = this.currentConfig.adaptiveDuration;
+
+    if (
+      limits.adaptive &&
+      elapsedMs >= limits.minDurationMs &&
+      elapsedMs < limits.durationMs &&
+      isThroughputStable(samples, windowMs, tolerance)
+    ) {
+      limits.durationMs = elapsedMs;
     }
-    
-    return jitterSum / (pings.length - 1);
   }
 
   private mapNetworkType(type: string | null): 'wifi' | 'cellular' | 'unknown' {
@@ -347,45 +1164,69 @@ export class SpeedTestService implements ISpeedTestService {
     return `test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private updateProgress(state: SpeedTestState, progress: number): void {
+  /**
+   * Progreso y tiempo restante se derivan del plan: basta con indicar el
+   * estado, y el tiempo dentro de la fase se cuenta desde que cambió
+   */
+  private updateProgress(
+    state: SpeedTestState,
+    extra: Pick<SpeedTestProgress, 'currentSpeed' | 'step'> = {},
+  ): void {
+    if (state !== this.progressState) {
+      const finished = this.progressState && PROGRESS_PHASES[this.progressState];
+      if (finished && finished !== PROGRESS_PHASES[state]) {
+        this.progressPlan = completePhase(
+          this.progressPlan,
+          finished,
+          Date.now() - this.progressStateSince,
+        );
+      }
+      this.progressState = state;
+      this.progressStateSince = Date.now();
+    }
+
     this.progressCallback?.({
       state,
-      progress,
+      ...this.snapshotProgress(state),
+      ...extra,
     });
   }
 
-  private checkShouldStop(): void {
-    if (this.shouldStop) {
-      throw this.createError('unknown-error', 'Test was stopped by user');
+  private snapshotProgress(state: SpeedTestState): ProgressSnapshot {
+    const phase = PROGRESS_PHASES[state];
+
+    if (state === 'completed') {
+      return { progress: 100, estimatedTimeRemaining: 0 };
     }
+    if (!phase) {
+      return { progress: 0, estimatedTimeRemaining: 0 };
+    }
+    return computeProgress(this.progressPlan, phase, Date.now() - this.progressStateSince);
   }
 
-  private createError(type: SpeedTestError, message: string): SpeedTestErrorInfo {
-    return {
-      type,
-      message,
-      details: { timestamp: new Date().toISOString() },
-    };
+  // Señal de la fase en curso, o del test entre fases (undefined fuera de un test)
+  private get signal(): AbortSignal | undefined {
+    return (this.phaseController ?? this.abortController)?.signal;
+  }
+
+  private isCancelled(): boolean {
+    return this.abortController?.signal.aborted ?? false;
   }
 
+  private throwIfCancelled(): void {
+    if (this.isCancelled()) {
+      throw createSpeedTestError('cancelled', 'Test was cancelled');
+    }
+  }
+
+
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return abortableSleep(ms, this.signal);
   }
 
   private async saveTestResult(result: SpeedTestResult): Promise<void> {
     try {
-      const key = 'speedtest_history';
-      const existingData = await AsyncStorage.getItem(key);
-      const history: SpeedTestResult[] = existingData ? JSON.parse(existingData) : [];
-      
-      history.unshift(result);
-      
-      // Keep only last 50 results
-      if (history.length > SPEED_TEST_CONSTANTS.MAX_HISTORY_ITEMS) {
-        history.splice(SPEED_TEST_CONSTANTS.MAX_HISTORY_ITEMS);
-      }
-      
-      await AsyncStorage.setItem(key, JSON.stringify(history));
+      await this.historyRepository.append(result);
     } catch (error) {
       console.warn('Failed to save test result:', error);
     }
@@ -397,7 +1238,8 @@ export class SpeedTestService implements ISpeedTestService {
 // ===============================
 
 export const createSpeedTestService = (
-  progressCallback?: (progress: SpeedTestProgress) => void
+  progressCallback?: (progress: SpeedTestProgress) => void,
+  historyRepository?: IHistoryRepository
 ): ISpeedTestService => {
-  return new SpeedTestService(progressCallback);
+  return new SpeedTestService(progressCallback, historyRepository);
 };
\ No newline at end of file
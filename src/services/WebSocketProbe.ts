@@ -0,0 +1,201 @@
+/**
+ * WebSocketProbe - Medición de RTT y pérdida sobre una conexión persistente
+ * Principio SOLID: Single Responsibility - Solo habla el protocolo de eco
+ *
+ * Envía mensajes pequeños numerados a ritmo fijo y espera que el servidor
+ * los devuelva tal cual. Sin TLS ni cabeceras HTTP por muestra, el RTT es
+ * el de la red; las secuencias sin eco dentro del timeout cuentan como perdidas.
+ */
+
+import { LatencySample } from '../types/SpeedTest';
+
+// ===============================
+// TIPOS
+// ===============================
+
+export interface WebSocketProbeOptions {
+  url: string;
+  count: number; // mensajes a enviar
+  intervalMs: number; // ritmo de envío
+  timeoutMs: number; // espera máxima por eco (y por la apertura)
+  signal?: AbortSignal; // cierra la conexión y rechaza al abortar
+}
+
+export interface WebSocketProbeResult {
+  rtts: number[]; // en orden de envío
+  samples: LatencySample[];
+  sent: number;
+  lost: number; // sin eco, o eco fuera de timeout
+  reordered: number; // ecos que llegaron después de uno con secuencia mayor
+}
+
+interface ProbeMessage {
+  seq: number;
+  t: number;
+}
+
+// ===============================
+// INTERFAZ DE LA SONDA
+// ===============================
+
+export interface IWebSocketProbe {
+  /**
+   * Rechaza si no se pudo abrir la conexión o si se aborta; una vez
+   * abierta, los fallos se reflejan como pérdida en el resultado
+   */
+  run(options: WebSocketProbeOptions): Promise<WebSocketProbeResult>;
+}
+
+// ===============================
+// IMPLEMENTACIÓN
+// ===============================
+
+export class WebSocketProbe implements IWebSocketProbe {
+  run(options: WebSocketProbeOptions): Promise<WebSocketProbeResult> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(options.url);
+      const pending = new Map<number, number>(); // seq -> envío
+      const samples: LatencySample[] = [];
+      const startTime = Date.now();
+      let sent = 0;
+      let reordered = 0;
+      let highestSeq = -1;
+      let opened = false;
+      let settled = false;
+      let sendTimer: ReturnType<typeof setInterval> | undefined;
+      let finishTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const openTimer = setTimeout(
+        () => fail(new Error('WebSocket connection timed out')),
+        options.timeoutMs,
+      );
+
+      const stopSending = () => {
+        if (sendTimer !== undefined) {
+          clearInterval(sendTimer);
+        }
+      };
+
+      const onAbort = () => fail(new Error('WebSocket probe aborted'));
+
+      const cleanup = () => {
+        settled = true;
+        options.signal?.removeEventListener('abort', onAbort);
+        clearTimeout(openTimer);
+        stopSending();
+        if (finishTimer !== undefined) {
+          clearTimeout(finishTimer);
+        }
+        socket.onopen = null;
+        socket.onmessage = null;
+        socket.onerror = null;
+        socket.onclose = null;
+        socket.close();
+      };
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        cleanup();
+        reject(error);
+      };
+
+      const finish = () => {
+        if (settled) return;
+        cleanup();
+        samples.sort((a, b) => a.elapsedMs - b.elapsedMs);
+        resolve({
+          rtts: samples.map(sample => sample.rtt),
+          samples,
+          sent,
+          lost: sent - samples.length,
+          reordered,
+        });
+      };
+
+      const sendNext = () => {
+        if (sent >= options.count) {
+          stopSending();
+          finishTimer = setTimeout(finish, options.timeoutMs);
+          return;
+        }
+
+        const message: ProbeMessage = { seq: sent, t: Date.now() };
+        pending.set(message.seq, message.t);
+        sent += 1;
+        socket.send(JSON.stringify(message));
+      };
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort);
+
+      socket.onopen = () => {
+        opened = true;
+        clearTimeout(openTimer);
+        sendNext();
+        sendTimer = setInterval(sendNext, options.intervalMs);
+      };
+
+      socket.onmessage = event => {
+        const receivedAt = Date.now();
+        const seq = parseSequence(event.data);
+        const sentAt = seq === null ? undefined : pending.get(seq);
+        if (seq === null || sentAt === undefined) return; // desconocido o duplicado
+
+        pending.delete(seq);
+        const rtt = receivedAt - sentAt;
+        if (rtt > options.timeoutMs) return; // llegó tarde: se cuenta como perdido
+
+        if (seq < highestSeq) {
+          reordered += 1;
+        }
+        highestSeq = Math.max(highestSeq, seq);
+
+        samples.push({ elapsedMs: sentAt - startTime, rtt });
+
+        if (sent >= options.count && pending.size === 0) {
+          finish();
+        }
+      };
+
+      socket.onerror = () => {
+        if (!opened) {
+          fail(new Error('WebSocket connection failed'));
+        }
+      };
+
+      socket.onclose = () => {
+        if (opened) {
+          finish(); // lo que quede pendiente cuenta como perdido
+        } else {
+          fail(new Error('WebSocket closed before opening'));
+        }
+      };
+    });
+  }
+}
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+const parseSequence = (data: unknown): number | null => {
+  if (typeof data !== 'string') return null;
+
+  try {
+    const message = JSON.parse(data) as Partial<ProbeMessage>;
+    return typeof message.seq === 'number' ? message.seq : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createWebSocketProbe = (): IWebSocketProbe => {
+  return new WebSocketProbe();
+};
@@ -0,0 +1,59 @@
+/**
+ * CloudflareProvider - Endpoints __down / __up de speed.cloudflare.com
+ */
+
+import {
+  NO_CACHE_HEADERS,
+  ProviderEndpoints,
+  ProviderRequest,
+  SpeedTestProvider,
+  appendQuery,
+  replacePathSegment,
+} from './SpeedTestProvider';
+
+export class CloudflareProvider implements SpeedTestProvider {
+  readonly type = 'cloudflare' as const;
+  private endpoints: ProviderEndpoints;
+
+  constructor(endpoints: ProviderEndpoints) {
+    this.endpoints = endpoints;
+  }
+
+  downloadRequest(bytes: number): ProviderRequest {
+    return {
+      url: appendQuery(this.endpoints.downloadUrl, { bytes }),
+      init: { headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  uploadRequest(payload: Uint8Array): ProviderRequest {
+    return {
+      url: this.endpoints.uploadUrl,
+      init: {
+        method: 'POST',
+        body: payload,
+        headers: { 'Content-Type': 'application/octet-stream' },
+      },
+    };
+  }
+
+  pingRequest(): ProviderRequest {
+    return {
+      url: this.endpoints.pingUrl,
+      init: { method: 'HEAD', headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  clientIpRequest(): ProviderRequest {
+    return {
+      url: replacePathSegment(this.endpoints.downloadUrl, 'cdn-cgi/trace'),
+      init: { headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  // Formato clave=valor por línea, p. ej. "ip=203.0.113.7"
+  parseClientIp(body: string): string | null {
+    const line = body.split('\n').find(entry => entry.startsWith('ip='));
+    return line ? line.slice(3).trim() || null : null;
+  }
+}
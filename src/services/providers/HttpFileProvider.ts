@@ -0,0 +1,57 @@
+/**
+ * HttpFileProvider - Servidor HTTP genérico
+ * Descarga un archivo estático completo, sube por POST a cualquier endpoint
+ * que acepte cuerpos binarios y mide latencia con HEAD
+ */
+
+import {
+  NO_CACHE_HEADERS,
+  ProviderEndpoints,
+  ProviderRequest,
+  SpeedTestProvider,
+  appendQuery,
+  cacheBuster,
+} from './SpeedTestProvider';
+
+export class HttpFileProvider implements SpeedTestProvider {
+  readonly type = 'http-file' as const;
+  private endpoints: ProviderEndpoints;
+
+  constructor(endpoints: ProviderEndpoints) {
+    this.endpoints = endpoints;
+  }
+
+  // El tamaño lo decide el archivo; el motor reabre la descarga si termina antes
+  downloadRequest(): ProviderRequest {
+    return {
+      url: appendQuery(this.endpoints.downloadUrl, { r: cacheBuster() }),
+      init: { headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  uploadRequest(payload: Uint8Array): ProviderRequest {
+    return {
+      url: this.endpoints.uploadUrl,
+      init: {
+        method: 'POST',
+        body: payload,
+        headers: { 'Content-Type': 'application/octet-stream' },
+      },
+    };
+  }
+
+  pingRequest(): ProviderRequest {
+    return {
+      url: this.endpoints.pingUrl,
+      init: { method: 'HEAD', headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  clientIpRequest(): null {
+    return null;
+  }
+
+  parseClientIp(): null {
+    return null;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * LibreSpeedProvider - Backends compatibles con LibreSpeed
+ * garbage.php (descarga), empty.php (subida y ping) y getIP.php
+ */
+
+import {
+  NO_CACHE_HEADERS,
+  ProviderEndpoints,
+  ProviderRequest,
+  SpeedTestProvider,
+  appendQuery,
+  cacheBuster,
+  replacePathSegment,
+} from './SpeedTestProvider';
+
+// garbage.php sirve bloques de 1 MiB; el backend limita ckSize a 1024
+const CHUNK_BYTES = 1024 * 1024;
+const MAX_CHUNKS = 1024;
+
+export class LibreSpeedProvider implements SpeedTestProvider {
+  readonly type = 'librespeed' as const;
+  private endpoints: ProviderEndpoints;
+
+  constructor(endpoints: ProviderEndpoints) {
+    this.endpoints = endpoints;
+  }
+
+  downloadRequest(bytes: number): ProviderRequest {
+    const chunks = Math.min(MAX_CHUNKS, Math.max(1, Math.ceil(bytes / CHUNK_BYTES)));
+
+    return {
+      url: appendQuery(this.endpoints.downloadUrl, { r: cacheBuster(), ckSize: chunks }),
+      init: { headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  uploadRequest(payload: Uint8Array): ProviderRequest {
+    return {
+      url: appendQuery(this.endpoints.uploadUrl, { r: cacheBuster() }),
+      init: {
+        method: 'POST',
+        body: payload,
+        headers: { 'Content-Type': 'application/octet-stream' },
+      },
+    };
+  }
+
+  pingRequest(): ProviderRequest {
+    return {
+      url: appendQuery(this.endpoints.pingUrl, { r: cacheBuster() }),
+      init: { headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  // getIP.php vive junto a garbage.php en todas las instalaciones estándar
+  clientIpRequest(): ProviderRequest {
+    return {
+      url: appendQuery(replacePathSegment(this.endpoints.downloadUrl, 'getIP.php'), {
+        r: cacheBuster(),
+      }),
+      init: { headers: NO_CACHE_HEADERS },
+    };
+  }
+
+  // Sin isp=true responde la IP en texto plano; con él, JSON con processedString
+  parseClientIp(body: string): string | null {
+    try {
+      const data = JSON.parse(body);
+      if (typeof data?.processedString === 'string') {
+        return data.processedString.split(' ')[0] || null;
+      }
+    } catch (error) {
+      // Texto plano
+    }
+    return body.trim() || null;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * SpeedTestProvider - Contrato de los backends de medición
+ * Principio SOLID: Dependency Inversion - SpeedTestService depende de esta
+ * interfaz y no del formato de peticiones de un servidor concreto
+ */
+
+import { SpeedTestProviderType } from '../../types/SpeedTest';
+
+// ===============================
+// TIPOS
+// ===============================
+
+export interface ProviderEndpoints {
+  downloadUrl: string;
+  uploadUrl: string;
+  pingUrl: string;
+}
+
+// Petición lista para pasar a fetch
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+// ===============================
+// INTERFAZ DEL PROVEEDOR
+// ===============================
+
+export interface SpeedTestProvider {
+  readonly type: SpeedTestProviderType;
+
+  /** Petición que devuelve aproximadamente `bytes` bytes (o el archivo completo) */
+  downloadRequest(bytes: number): ProviderRequest;
+
+  /** Petición que envía `payload` y cuyo éxito confirma la recepción */
+  uploadRequest(payload: Uint8Array): ProviderRequest;
+
+  /** Petición mínima para medir latencia */
+  pingRequest(): ProviderRequest;
+
+  /** Petición que devuelve la IP pública del cliente, si el backend la ofrece */
+  clientIpRequest(): ProviderRequest | null;
+
+  parseClientIp(body: string): string | null;
+}
+
+// ===============================
+// UTILIDADES COMPARTIDAS
+// ===============================
+
+export const NO_CACHE_HEADERS = { 'Cache-Control': 'no-cache' };
+
+export const appendQuery = (url: string, params: Record<string, string | number>): string => {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${query}`;
+};
+
+// Parámetro anti-caché para proxies que ignoran Cache-Control
+export const cacheBuster = (): string => Math.random().toString(36).slice(2);
+
+export const replacePathSegment = (url: string, file: string): string => {
+  const queryIndex = url.indexOf('?');
+  const path = queryIndex >= 0 ? url.slice(0, queryIndex) : url;
+  return `${path.slice(0, path.lastIndexOf('/') + 1)}${file}`;
+};
@@ -0,0 +1,33 @@
+/**
+ * Proveedores de medición disponibles
+ * Principio SOLID: Open/Closed - un backend nuevo solo requiere otra clase
+ * y su entrada en el factory
+ */
+
+import { SpeedTestProviderType } from '../../types/SpeedTest';
+import { CloudflareProvider } from './CloudflareProvider';
+import { HttpFileProvider } from './HttpFileProvider';
+import { LibreSpeedProvider } from './LibreSpeedProvider';
+import { ProviderEndpoints, SpeedTestProvider } from './SpeedTestProvider';
+
+export type { ProviderEndpoints, ProviderRequest, SpeedTestProvider } from './SpeedTestProvider';
+export { CloudflareProvider, HttpFileProvider, LibreSpeedProvider };
+
+// ===============================
+// FACTORY FUNCTION
+// ===============================
+
+export const createSpeedTestProvider = (
+  type: SpeedTestProviderType,
+  endpoints: ProviderEndpoints,
+): SpeedTestProvider => {
+  switch (type) {
+    case 'librespeed':
+      return new LibreSpeedProvider(endpoints);
+    case 'http-file':
+      return new HttpFileProvider(endpoints);
+    case 'cloudflare':
+    default:
+      return new CloudflareProvider(endpoints);
+  }
+};
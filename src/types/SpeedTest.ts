@@ -11,14 +11,88 @@
 export interface SpeedTestResult {
   id: string;
   timestamp: Date;
-  downloadSpeed: number; // Mbps
-  uploadSpeed: number; // Mbps
-  ping: number; // ms
-  jitter: number; // ms
-  packetLoss: number; // percentage
+  downloadSpeed: number; // Mbps decimales (10^6 bits/s)
+  uploadSpeed: number; // Mbps decimales (10^6 bits/s)
+  ping: number; // ms (mediana)
+  jitter: number; // ms (RFC 3550)
+  packetLoss: number; // percentage; ver lossMethod
   serverInfo: ServerInfo;
   deviceInfo: DeviceInfo;
   networkInfo: NetworkInfo;
+  downloadConnections?: ConnectionStats[];
+  uploadConnections?: ConnectionStats[];
+  downloadSamples?: ThroughputSample[];
+  uploadSamples?: ThroughputSample[];
+  pingSamples?: LatencySample[];
+  estimator?: ThroughputEstimator;
+  unitSystem?: 'si'; // ausente en historial anterior a Mbps decimales
+  latency?: LatencyUnderLoad;
+  bufferbloatGrade?: BufferbloatGrade | null;
+  latencyStats?: LatencyStats;
+  lossMethod?: LossMethod; // ausente en historial antiguo: 'request-failure'
+  warnings?: TestWarning[];
+  bytesDownloaded?: number; // todas las fases, reintentos incluidos
+  bytesUploaded?: number; // solo lo que el servidor confirmó
+  downloadDurationMs?: number; // duración real; varía con el modo adaptativo
+  uploadDurationMs?: number;
+  skippedPhases?: TestPhase[]; // del plan, pero sin presupuesto de datos
+  testPlan?: TestPlan; // ausente en historial antiguo: plan completo
+  connectionTimings?: ConnectionTimings;
+}
+
+/**
+ * Tiempos de establecimiento de conexión. fetch no expone el desglose, así
+ * que se estiman comparando una petición en frío con otra sobre la conexión
+ * ya abierta. La resolución DNS no se puede aislar y va dentro de connectMs,
+ * que queda a null si algo ya había abierto conexión con ese host
+ */
+export interface ConnectionTimings {
+  connectMs: number | null; // DNS + TCP + TLS, en frío menos en caliente
+  ttfbMs: number | null; // hasta las cabeceras con la conexión reutilizada
+}
+
+export interface LatencyStats {
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  jitter: number; // RFC 3550
+  sent: number;
+  received: number;
+  lossRate: number; // percentage
+}
+
+// Origen de la cifra de pérdida: peticiones HTTP fallidas no son paquetes perdidos
+export type LossMethod = 'request-failure' | 'packet';
+
+// Latencia en reposo frente a latencia con el enlace saturado (ms)
+export interface LatencyUnderLoad {
+  idle: number;
+  download: number | null; // null si no hubo respuestas durante la fase
+  upload: number | null;
+}
+
+export type BufferbloatGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+// Muestra de velocidad instantánea durante una fase
+export interface ThroughputSample {
+  elapsedMs: number; // desde el inicio de la fase
+  mbps: number;
+}
+
+// Respuesta individual de la fase de ping
+export interface LatencySample {
+  elapsedMs: number; // desde el inicio de la fase
+  rtt: number; // ms
+}
+
+export interface ConnectionStats {
+  id: number;
+  bytes: number;
+  requests: number; // peticiones abiertas (incluye reinicios)
+  speed: number; // Mbps
 }
 
 export interface ServerInfo {
@@ -29,6 +103,26 @@ export interface ServerInfo {
   ping: number; // ms
 }
 
+// Entrada de la lista de servidores (remota o empaquetada)
+export interface ServerDefinition {
+  id: string;
+  name: string;
+  location: string;
+  latitude?: number; // ausente en servidores anycast
+  longitude?: number;
+  provider?: SpeedTestProviderType; // 'cloudflare' si no se indica
+  downloadUrl: string;
+  uploadUrl: string;
+  pingUrl: string;
+  webSocketUrl?: string; // eco WebSocket para RTT y pérdida real
+}
+
+// Servidor evaluado durante el descubrimiento, listo para mostrar en la UI
+export interface ServerCandidate extends ServerInfo {
+  definition: ServerDefinition;
+  reachable: boolean;
+}
+
 export interface DeviceInfo {
   platform: 'android' | 'ios';
   model: string;
@@ -42,6 +136,7 @@ export interface NetworkInfo {
   isInternetReachable: boolean;
   carrier?: string;
   ipAddress?: string;
+  publicIp?: string; // según el servidor de pruebas
 }
 
 // ===============================
@@ -55,34 +150,132 @@ export type SpeedTestState =
   | 'testing-download'
   | 'testing-upload'
   | 'completed'
+  | 'cancelled'
   | 'error';
 
 export interface SpeedTestProgress {
   state: SpeedTestState;
   progress: number; // 0-100
-  currentSpeed?: number;
-  estimatedTimeRemaining?: number;
+  currentSpeed?: number; // Mbps, ventana deslizante durante download/upload
+  step?: ConnectingStep; // solo en 'connecting'
+  estimatedTimeRemaining?: number; // segundos, según la duración prevista de cada fase
 }
 
+// Pasos de la fase previa a medir
+export type ConnectingStep = 'network-check' | 'server-discovery' | 'handshake' | 'warm-up';
+
 // ===============================
 // CONFIGURACIÓN Y PARÁMETROS
 // ===============================
 
+// Avisos que no invalidan el test pero condicionan su lectura
+export type TestWarning = 'transparent-proxy' | 'data-cap-reached';
+
+// Resultado del chequeo previo al test
+export interface PreflightResult {
+  status: 'ok' | 'captive-portal' | 'inconclusive';
+  redirectedTo?: string; // URL final si la comprobación fue redirigida
+  proxyHeaders: string[]; // cabeceras de proxy encontradas en la respuesta
+}
+
+// Unidades de visualización; internamente todo se guarda en Mbps
+export type SpeedUnit = 'Mbps' | 'Mibps' | 'MB/s' | 'Kbps' | 'Gbps';
+
+export const SPEED_UNITS: readonly SpeedUnit[] = ['Mbps', 'Mibps', 'MB/s', 'Kbps', 'Gbps'];
+
+// Formato de peticiones del backend de medición
+export type SpeedTestProviderType = 'cloudflare' | 'librespeed' | 'http-file';
+
+export const SPEED_TEST_PROVIDER_TYPES: readonly SpeedTestProviderType[] = [
+  'cloudflare',
+  'librespeed',
+  'http-file',
+];
+
+// Cómo se reduce una fase de transferencia a una única velocidad
+export type ThroughputEstimatorMethod = 'mean' | 'p90' | 'trimmed-mean';
+
+export interface ThroughputEstimator {
+  method: ThroughputEstimatorMethod;
+  warmupMs: number; // se descarta al inicio de cada fase
+  bucketMs: number; // tamaño de los intervalos agregados
+  trimFraction: number; // por extremo, solo para 'trimmed-mean'
+}
+
+// Duración adaptativa de download/upload entre MIN y MAX_TEST_DURATION
+export interface AdaptiveDuration {
+  enabled: boolean;
+  windowMs: number; // tiempo que la velocidad debe mantenerse estable
+  tolerance: number; // desviación máxima respecto a la media de la ventana (fracción)
+}
+
+// Reintentos de una fase: espera exponencial acotada con jitter
+export interface RetryPolicy {
+  retries: number; // reintentos tras el primer intento
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Ajustes de una fase dentro de un plan; lo que falte sale de SpeedTestConfig
+export interface PhaseSettings {
+  phase: TestPhase;
+  durationSeconds?: number; // solo download/upload; fija la duración (sin modo adaptativo)
+  connections?: number; // por defecto maxConcurrentConnections
+  maxBytes?: number; // la fase termina antes si se transfieren estos bytes
+}
+
+// Qué fases se ejecutan y en qué orden
+export interface TestPlan {
+  id: string;
+  name: string;
+  phases: PhaseSettings[];
+}
+
+// Si se indica alguna de las URLs de test, sustituyen al servidor descubierto
+// entero y `provider` debe ser el formato de esas URLs
 export interface SpeedTestConfig {
-  testDuration: number; // seconds
+  testDuration: number; // seconds; pasada a startTest fija la duración y desactiva la adaptativa
+  adaptiveDuration: AdaptiveDuration;
+  plan: TestPlan;
+  provider: SpeedTestProviderType;
+  estimator: ThroughputEstimator;
   downloadTestUrl: string;
   uploadTestUrl: string;
   pingTestUrl: string;
+  pingWebSocketUrl?: string; // si existe, el ping usa la sonda WebSocket
   maxConcurrentConnections: number;
+  pingSamples: number;
   retryAttempts: number;
   timeout: number; // ms
+  serverListUrl?: string; // lista JSON de servidores; si falla se usa la empaquetada
+  cellularDataCapBytes?: number; // tope por test en datos móviles; sin valor, sin tope
+  preferredServerId?: string; // se usa en vez del mejor del ranking si responde
+  saveHistory: boolean;
 }
 
+// Campos de SpeedTestConfig editables en Ajustes; los ausentes usan el valor por defecto
+export type AdvancedTestConfig = Partial<
+  Pick<
+    SpeedTestConfig,
+    | 'testDuration'
+    | 'maxConcurrentConnections'
+    | 'timeout'
+    | 'cellularDataCapBytes'
+    | 'downloadTestUrl'
+    | 'uploadTestUrl'
+    | 'pingTestUrl'
+    | 'provider'
+  >
+>;
+
 export interface TestSettings {
   autoStartOnLaunch: boolean;
   saveHistory: boolean;
-  preferredServer?: string;
-  testIntervalMinutes?: number;
+  preferredServer?: string; // id de ServerDefinition
+  testIntervalMinutes?: number; // tests periódicos con la app abierta; sin valor, ninguno
+  historyRetentionDays?: number; // antigüedad máxima del historial; sin valor, la de DEFAULT_HISTORY_RETENTION
+  historyMaxItems?: number; // resultados guardados como máximo; sin valor, los de DEFAULT_HISTORY_RETENTION
+  advanced: AdvancedTestConfig;
 }
 
 // ===============================
@@ -94,8 +287,37 @@ export type SpeedTestError =
   | 'server-unreachable'
   | 'timeout'
   | 'permission-denied'
+  | 'cancelled'
+  | 'dns-failure' // no se pudo resolver el host
+  | 'tls-error' // handshake o certificado rechazado
+  | 'http-status' // respuesta con un estado inesperado (details.status)
+  | 'captive-portal' // la red intercepta las peticiones (login de Wi-Fi)
+  | 'reader-unsupported' // el runtime no expone el cuerpo como stream
+  | 'offline' // la conexión se perdió con el test en marcha
+  | 'server-overload' // 429/503: el servidor pide que esperemos
   | 'unknown-error';
 
+// Idiomas con explicaciones de error traducidas
+export type ErrorLocale = 'en' | 'es';
+
+// Texto para el usuario: qué pasó y qué puede hacer
+export interface ErrorDescription {
+  title: string;
+  explanation: string;
+  suggestion: string;
+}
+
+// Fases del test que se reintentan y cronometran por separado
+export type TestPhase = 'ping' | 'download' | 'upload';
+
+// Un intento fallido, tal como queda en SpeedTestErrorInfo.details.attempts
+export interface RetryAttempt {
+  attempt: number; // 1 = primer intento
+  errorType: SpeedTestError;
+  message: string;
+  delayMs: number; // espera antes del siguiente intento (0 si fue el último)
+}
+
 export interface SpeedTestErrorInfo {
   type: SpeedTestError;
   message: string;
@@ -103,6 +325,40 @@ export interface SpeedTestErrorInfo {
   details?: Record<string, unknown>;
 }
 
+// ===============================
+// USO DE DATOS Y ALMACENAMIENTO
+// ===============================
+
+// Subconjunto de AsyncStorage que usan los stores; permite inyectar otro
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Consulta al historial; sin criterios devuelve todos los resultados guardados
+export interface HistoryQuery {
+  from?: Date; // inclusive
+  to?: Date; // inclusive
+  networkType?: NetworkInfo['type'];
+  filter?: (result: SpeedTestResult) => boolean;
+  offset?: number; // resultados coincidentes que se saltan, para paginar
+  limit?: number; // tras filtrar, empezando por el más reciente
+}
+
+// Qué se conserva del historial; un límite ausente no recorta nada
+export interface HistoryRetention {
+  maxItems?: number;
+  maxAgeDays?: number;
+}
+
+export interface MonthlyDataUsage {
+  month: string; // YYYY-MM en hora local
+  totalBytes: number;
+  cellularBytes: number;
+  tests: number;
+}
+
 // ===============================
 // HOOKS Y CONTEXTO
 // ===============================
@@ -114,14 +370,29 @@ export interface SpeedTestContextValue {
   error: SpeedTestErrorInfo | null;
   isLoading: boolean;
   
-  // Historial
+  // Historial, cargado por páginas desde el más reciente
   testHistory: SpeedTestResult[];
+  historyCount: number; // total guardado, aunque no esté cargado
+  hasMoreHistory: boolean;
+
+  // Servidores ordenados del mejor al peor
+  servers: ServerCandidate[];
+
+  // Ajustes persistidos; startTest los aplica antes de la config que recibe
+  settings: TestSettings;
+  settingsLoaded: boolean;
+  updateSettings: (changes: Partial<TestSettings>) => Promise<void>;
   
   // Acciones
-  startTest: () => Promise<void>;
+  startTest: (config?: Partial<SpeedTestConfig>) => Promise<void>;
   stopTest: () => void;
   clearHistory: () => void;
+  deleteResult: (id: string) => Promise<void>;
+  findResult: (id: string) => Promise<SpeedTestResult | null>; // aunque no esté cargado
+  queryHistory: (query: HistoryQuery) => Promise<SpeedTestResult[]>; // sobre todo lo guardado
+  loadMoreHistory: () => Promise<void>;
   retryTest: () => Promise<void>;
+  refreshServers: () => Promise<void>;
 }
 
 // ===============================
@@ -129,17 +400,27 @@ export interface SpeedTestContextValue {
 // ===============================
 
 export interface SpeedMeterProps {
-  currentSpeed: number;
-  maxSpeed: number;
+  currentSpeed: number; // Mbps
+  maxSpeed: number; // Mbps
+  unit?: SpeedUnit;
   testType: 'download' | 'upload';
   isActive: boolean;
   size?: 'small' | 'medium' | 'large';
 }
 
+export interface SpeedChartProps {
+  downloadSamples?: ThroughputSample[];
+  uploadSamples?: ThroughputSample[];
+  pingSamples?: LatencySample[];
+  unit?: SpeedUnit;
+  height?: number;
+}
+
 export interface TestResultCardProps {
   result: SpeedTestResult;
   onPress?: () => void;
   showDetails?: boolean;
+  unit?: SpeedUnit;
 }
 
 export interface NetworkIndicatorProps {
@@ -156,9 +437,77 @@ export const SPEED_TEST_CONSTANTS = {
   MAX_TEST_DURATION: 60, // seconds
   DEFAULT_TIMEOUT: 30000, // ms
   PING_SAMPLES: 10,
-  MAX_HISTORY_ITEMS: 50,
+  LOADED_PING_INTERVAL: 500, // ms entre pings durante download/upload
+  WEBSOCKET_PING_INTERVAL: 100, // ms entre mensajes de la sonda WebSocket
+  WEBSOCKET_PING_TIMEOUT: 2000, // ms de espera por cada eco
+  SERVER_PROBE_SAMPLES: 3,
+  SERVER_PROBE_TIMEOUT: 2000, // ms
+  SERVER_LIST_TIMEOUT: 5000, // ms para la lista de servidores y la geolocalización
+  PREFLIGHT_TIMEOUT: 5000, // ms para la comprobación de portal cautivo
+  RETRY_BASE_DELAY: 500, // ms antes del primer reintento
+  RETRY_MAX_DELAY: 5000, // ms, tope de la espera exponencial
+  HISTORY_PAGE_SIZE: 20, // resultados por carga en la UI
+  MAX_CONCURRENT_CONNECTIONS: 16,
+  MIN_TIMEOUT: 1000, // ms
+  MAX_TIMEOUT: 120000, // ms
+  CELLULAR_DATA_CAP_BYTES: 100 * 1000 * 1000, // 100 MB por test
+  MIN_CELLULAR_DATA_CAP_BYTES: 1000 * 1000, // 1 MB
+  MAX_CELLULAR_DATA_CAP_BYTES: 10 * 1000 * 1000 * 1000, // 10 GB
 } as const;
 
+export const DEFAULT_THROUGHPUT_ESTIMATOR: ThroughputEstimator = {
+  method: 'p90',
+  warmupMs: 2000,
+  bucketMs: 250,
+  trimFraction: 0.1,
+};
+
+export const DEFAULT_TEST_SETTINGS: TestSettings = {
+  autoStartOnLaunch: false,
+  saveHistory: true,
+  advanced: {},
+};
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxItems: 5000,
+  maxAgeDays: 365,
+};
+
+export const DEFAULT_ADAPTIVE_DURATION: AdaptiveDuration = {
+  enabled: true,
+  windowMs: 3000,
+  tolerance: 0.1,
+};
+
+export const TEST_PLAN_PRESETS: TestPlan[] = [
+  {
+    id: 'quick',
+    name: 'Quick (ping only)',
+    phases: [{ phase: 'ping' }],
+  },
+  {
+    id: 'download-only',
+    name: 'Download only',
+    phases: [{ phase: 'download' }],
+  },
+  {
+    id: 'full',
+    name: 'Full',
+    phases: [{ phase: 'ping' }, { phase: 'download' }, { phase: 'upload' }],
+  },
+  {
+    id: 'extended-stability',
+    name: 'Extended stability (60s)',
+    phases: [
+      { phase: 'ping' },
+      { phase: 'download', durationSeconds: 60 },
+      { phase: 'upload', durationSeconds: 60 },
+    ],
+  },
+];
+
+export const DEFAULT_TEST_PLAN: TestPlan = TEST_PLAN_PRESETS[2];
+
 export const SPEED_RANGES = {
   POOR: { min: 0, max: 5 },
   FAIR: { min: 5, max: 25 },
@@ -181,6 +530,58 @@ export const isValidSpeedTestResult = (result: unknown): result is SpeedTestResu
   );
 };
 
+export const isValidServerDefinition = (server: unknown): server is ServerDefinition => {
+  if (typeof server !== 'object' || server === null) return false;
+
+  const entry = server as Record<string, unknown>;
+  const requiredStrings = ['id', 'name', 'location', 'downloadUrl', 'uploadUrl', 'pingUrl'];
+  const optionalNumbers = ['latitude', 'longitude'];
+  const optionalStrings = ['webSocketUrl'];
+
+  return (
+    requiredStrings.every(key => typeof entry[key] === 'string' && entry[key] !== '') &&
+    optionalNumbers.every(key => entry[key] === undefined || typeof entry[key] === 'number') &&
+    optionalStrings.every(key => entry[key] === undefined || typeof entry[key] === 'string') &&
+    (entry.provider === undefined ||
+      SPEED_TEST_PROVIDER_TYPES.includes(entry.provider as SpeedTestProviderType))
+  );
+};
+
+export const isValidTestPlan = (plan: unknown): plan is TestPlan => {
+  if (typeof plan !== 'object' || plan === null) return false;
+
+  const candidate = plan as Partial<TestPlan>;
+  if (!Array.isArray(candidate.phases) || candidate.phases.length === 0) return false;
+
+  const phases = candidate.phases.map(settings => settings?.phase);
+  const knownPhases: TestPhase[] = ['ping', 'download', 'upload'];
+
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    phases.every(phase => knownPhases.includes(phase)) &&
+    new Set(phases).size === phases.length // cada fase una sola vez
+  );
+};
+
+/**
+ * Si el resultado midió la fase; el historial sin plan viene del test completo
+ * y una fase saltada por el tope de datos no cuenta como medida
+ */
+export const resultIncludesPhase = (result: SpeedTestResult, phase: TestPhase): boolean => {
+  if (result.skippedPhases?.includes(phase)) return false;
+  return result.testPlan?.phases.some(settings => settings.phase === phase) ?? true;
+};
+
+export const isSpeedTestErrorInfo = (error: unknown): error is SpeedTestErrorInfo => {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as SpeedTestErrorInfo).type === 'string' &&
+    typeof (error as SpeedTestErrorInfo).message === 'string'
+  );
+};
+
 export const isNetworkAvailable = (networkInfo: NetworkInfo): boolean => {
   return networkInfo.isConnected && networkInfo.isInternetReachable;
 };
\ No newline at end of file
@@ -0,0 +1,83 @@
+/**
+ * Utilidades de cancelación
+ * Encadenan AbortControllers para que abortar el test cancele también
+ * cada petición hija (que además puede tener su propio motivo, p. ej. timeout)
+ */
+
+export interface LinkedAbortController {
+  controller: AbortController;
+  /** Desengancha el listener del padre; llamar siempre al terminar */
+  dispose: () => void;
+}
+
+/**
+ * Controlador hijo que se aborta cuando lo hace `parent`
+ */
+export const createLinkedAbortController = (parent?: AbortSignal): LinkedAbortController => {
+  const controller = new AbortController();
+
+  if (!parent) {
+    return { controller, dispose: () => undefined };
+  }
+
+  if (parent.aborted) {
+    controller.abort();
+    return { controller, dispose: () => undefined };
+  }
+
+  const onAbort = () => controller.abort();
+  parent.addEventListener('abort', onAbort);
+
+  return {
+    controller,
+    dispose: () => parent.removeEventListener('abort', onAbort),
+  };
+};
+
+/**
+ * Espera `ms` salvo que `signal` se aborte antes (entonces rechaza)
+ */
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort);
+  });
+};
+
+/**
+ * Rechaza con `createError()` si `promise` no se resuelve en `ms`. No
+ * cancela la operación original: eso queda a cargo de quien la lanzó
+ */
+export const withTimeout = <T>(
+  promise: Promise<T>,
+  ms: number,
+  createError: () => unknown,
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(createError()), ms);
+
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+};
@@ -0,0 +1,97 @@
+/**
+ * Clasificación de errores
+ * Traduce fallos de bajo nivel (excepciones de fetch, estados HTTP) a un
+ * SpeedTestError concreto. El fetch de React Native solo expone el mensaje
+ * de la plataforma, así que DNS y TLS se reconocen por patrones conocidos de
+ * iOS (NSURLError) y Android (OkHttp); lo que no encaja queda como genérico
+ */
+
+import { SpeedTestError, SpeedTestErrorInfo, isSpeedTestErrorInfo } from '../types/SpeedTest';
+
+// ===============================
+// PATRONES DE MENSAJES DE PLATAFORMA
+// ===============================
+
+const MESSAGE_PATTERNS: Array<{ type: SpeedTestError; pattern: RegExp }> = [
+  {
+    type: 'dns-failure',
+    pattern: /unknownhost|unable to resolve host|hostname could not be found|name not resolved|enotfound|getaddrinfo/i,
+  },
+  // Antes que TLS: "SSL handshake timed out" es un timeout y merece reintento
+  { type: 'timeout', pattern: /timed out|timeout/i },
+  {
+    type: 'tls-error',
+    pattern: /ssl|tls|certificate|handshake|certpathvalidator|trust anchor/i,
+  },
+  { type: 'server-unreachable', pattern: /network request failed|connection refused|econnrefused/i },
+];
+
+// Errores que no mejoran repitiendo la misma petición
+const PERMANENT_ERRORS: SpeedTestError[] = [
+  'cancelled',
+  'permission-denied',
+  'network-unavailable',
+  'offline',
+  'captive-portal',
+  'reader-unsupported',
+  'tls-error',
+];
+
+// ===============================
+// CONSTRUCCIÓN Y CLASIFICACIÓN
+// ===============================
+
+export const createSpeedTestError = (
+  type: SpeedTestError,
+  message: string,
+  details?: Record<string, unknown>,
+): SpeedTestErrorInfo => {
+  return {
+    type,
+    message,
+    details: { ...details, timestamp: new Date().toISOString() },
+  };
+};
+
+/**
+ * Devuelve `error` tal cual si ya está clasificado; si no, lo clasifica por
+ * su mensaje y conserva el original en details.cause
+ */
+export const classifyError = (error: unknown): SpeedTestErrorInfo => {
+  if (isSpeedTestErrorInfo(error)) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = MESSAGE_PATTERNS.find(({ pattern }) => pattern.test(message));
+
+  return createSpeedTestError(match?.type ?? 'unknown-error', message, { cause: message });
+};
+
+/**
+ * Error para una respuesta HTTP no satisfactoria. 429 y 503 indican un
+ * servidor saturado y 511 un portal cautivo (RFC 6585)
+ */
+export const errorFromHttpStatus = (status: number, url: string): SpeedTestErrorInfo => {
+  const details = { status, url };
+
+  if (status === 429 || status === 503) {
+    return createSpeedTestError('server-overload', `Server is overloaded (HTTP ${status})`, details);
+  }
+  if (status === 511) {
+    return createSpeedTestError('captive-portal', 'Network requires sign-in (HTTP 511)', details);
+  }
+  return createSpeedTestError('http-status', `Unexpected HTTP status ${status}`, details);
+};
+
+// Los estados 4xx distintos de 429 son errores del cliente: no se reintentan
+export const isRetryableError = (error: SpeedTestErrorInfo): boolean => {
+  if (PERMANENT_ERRORS.includes(error.type)) {
+    return false;
+  }
+  if (error.type === 'http-status') {
+    const status = error.details?.status;
+    return typeof status !== 'number' || status >= 500;
+  }
+  return true;
+};
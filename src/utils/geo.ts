@@ -0,0 +1,43 @@
+/**
+ * Utilidades geográficas
+ * Funciones puras, sin dependencias de React Native
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Distancia de círculo máximo (fórmula de haversine) en km
+ */
+export const haversineDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const isValidCoordinates = (value: unknown): value is Coordinates => {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+};
@@ -0,0 +1,150 @@
+/**
+ * Utilidades del historial
+ * Filtrado y ordenación de resultados para la pantalla de historial. Los
+ * filtros se traducen a una HistoryQuery para que el repositorio los aplique
+ * sobre todo lo guardado. Un resultado que no midió la métrica elegida (fase
+ * fuera del plan o saltada) queda al final en cualquier sentido de orden
+ */
+
+import {
+  HistoryQuery,
+  NetworkInfo,
+  SpeedTestResult,
+  TestPhase,
+  resultIncludesPhase,
+} from '../types/SpeedTest';
+
+export type HistorySortKey = 'date' | 'download' | 'upload' | 'ping' | 'jitter' | 'packetLoss';
+
+export interface HistorySort {
+  key: HistorySortKey;
+  direction: 'asc' | 'desc';
+}
+
+// Criterios ausentes no filtran
+export interface HistoryFilter {
+  networkType?: NetworkInfo['type'];
+  serverId?: string;
+  carrier?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface HistoryFilterOptions {
+  servers: Array<{ id: string; name: string }>;
+  carriers: string[];
+}
+
+export interface HistoryStats {
+  averageDownload: number;
+  averageUpload: number;
+  averagePing: number;
+  totalTests: number;
+  lastTestDate: Date | null;
+}
+
+export const DEFAULT_HISTORY_SORT: HistorySort = { key: 'date', direction: 'desc' };
+
+// Fase que tiene que haberse medido para que la métrica tenga valor
+const SORT_PHASES: Record<Exclude<HistorySortKey, 'date'>, TestPhase> = {
+  download: 'download',
+  upload: 'upload',
+  ping: 'ping',
+  jitter: 'ping',
+  packetLoss: 'ping',
+};
+
+export const filterHistory = (
+  results: SpeedTestResult[],
+  { networkType, serverId, carrier, from, to }: HistoryFilter,
+): SpeedTestResult[] => {
+  return results.filter(
+    result =>
+      (!networkType || result.networkInfo.type === networkType) &&
+      (!serverId || result.serverInfo.id === serverId) &&
+      (!carrier || result.networkInfo.carrier === carrier) &&
+      (!from || result.timestamp.getTime() >= from.getTime()) &&
+      (!to || result.timestamp.getTime() <= to.getTime()),
+  );
+};
+
+/**
+ * Consulta equivalente a filterHistory: fechas y red las resuelve el índice
+ * del repositorio; servidor y operador, un filtro por resultado
+ */
+export const toHistoryQuery = ({
+  networkType,
+  serverId,
+  carrier,
+  from,
+  to,
+}: HistoryFilter): HistoryQuery => ({
+  from,
+  to,
+  networkType,
+  ...(serverId || carrier
+    ? { filter: result => filterHistory([result], { serverId, carrier }).length > 0 }
+    : {}),
+});
+
+// El repositorio devuelve del más reciente al más antiguo: cualquier otro
+// orden necesita todos los resultados que coinciden, no solo una página
+export const needsFullHistory = ({ key, direction }: HistorySort): boolean =>
+  key !== 'date' || direction !== 'desc';
+
+export const sortHistory = (results: SpeedTestResult[], { key, direction }: HistorySort): SpeedTestResult[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const value = (result: SpeedTestResult): number | null => {
+    if (key === 'date') return result.timestamp.getTime();
+    if (!resultIncludesPhase(result, SORT_PHASES[key])) return null;
+    return key === 'download' ? result.downloadSpeed
+      : key === 'upload' ? result.uploadSpeed
+      : result[key];
+  };
+
+  // sort es estable: los empates conservan el orden de entrada
+  return [...results].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === null || right === null) {
+      return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+    }
+    return (left - right) * sign;
+  });
+};
+
+// Valores distintos de servidor y operador para ofrecerlos como filtro
+export const collectFilterOptions = (results: SpeedTestResult[]): HistoryFilterOptions => {
+  const servers = new Map<string, string>();
+  const carriers = new Set<string>();
+
+  results.forEach(({ serverInfo, networkInfo }) => {
+    if (!servers.has(serverInfo.id)) servers.set(serverInfo.id, serverInfo.name);
+    if (networkInfo.carrier) carriers.add(networkInfo.carrier);
+  });
+
+  return {
+    servers: [...servers].map(([id, name]) => ({ id, name })),
+    carriers: [...carriers].sort(),
+  };
+};
+
+/**
+ * Medias de los resultados dados, del más reciente al más antiguo. Cada
+ * media solo cuenta los tests cuyo plan midió esa fase
+ */
+export const summarizeHistory = (results: SpeedTestResult[]): HistoryStats => {
+  const average = (phase: TestPhase, value: (result: SpeedTestResult) => number) => {
+    const measured = results.filter(result => resultIncludesPhase(result, phase));
+    if (measured.length === 0) return 0;
+    return measured.reduce((sum, result) => sum + value(result), 0) / measured.length;
+  };
+
+  return {
+    averageDownload: Math.round(average('download', result => result.downloadSpeed) * 100) / 100,
+    averageUpload: Math.round(average('upload', result => result.uploadSpeed) * 100) / 100,
+    averagePing: Math.round(average('ping', result => result.ping)),
+    totalTests: results.length,
+    lastTestDate: results[0]?.timestamp ?? null,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * Análisis de latencia
+ * Funciones puras para comparar la latencia en reposo con la latencia bajo carga
+ */
+
+import { BufferbloatGrade, LatencyStats, LatencyUnderLoad } from '../types/SpeedTest';
+import { mean, percentile } from './statistics';
+
+// Aumento máximo de latencia (ms) bajo carga para cada calificación
+const BUFFERBLOAT_THRESHOLDS: { grade: BufferbloatGrade; maxIncrease: number }[] = [
+  { grade: 'A', maxIncrease: 30 },
+  { grade: 'B', maxIncrease: 60 },
+  { grade: 'C', maxIncrease: 200 },
+  { grade: 'D', maxIncrease: 400 },
+];
+
+// Ganancia del filtro de jitter de RFC 3550 (sección 6.4.1)
+const RFC3550_JITTER_GAIN = 1 / 16;
+
+export const median = (values: number[]): number => percentile(values, 50);
+
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  const variance = mean(values.map(value => (value - average) ** 2));
+  return Math.sqrt(variance);
+};
+
+/**
+ * Jitter entre llegadas de RFC 3550: J += (|D| - J) / 16, donde D es la
+ * diferencia entre RTT consecutivos (en orden de envío)
+ */
+export const rfc3550Jitter = (rtts: number[]): number => {
+  let jitter = 0;
+
+  for (let i = 1; i < rtts.length; i++) {
+    const difference = Math.abs(rtts[i] - rtts[i - 1]);
+    jitter += (difference - jitter) * RFC3550_JITTER_GAIN;
+  }
+
+  return jitter;
+};
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Resumen de una serie de RTT; `sent` es el número de sondas enviadas
+ */
+export const computeLatencyStats = (rtts: number[], sent: number): LatencyStats => {
+  const failed = Math.max(0, sent - rtts.length);
+
+  return {
+    min: rtts.length > 0 ? Math.min(...rtts) : 0,
+    median: round1(median(rtts)),
+    p95: round1(percentile(rtts, 95)),
+    max: rtts.length > 0 ? Math.max(...rtts) : 0,
+    mean: round1(mean(rtts)),
+    stdDev: round1(standardDeviation(rtts)),
+    jitter: round1(rfc3550Jitter(rtts)),
+    sent,
+    received: rtts.length,
+    lossRate: sent > 0 ? round1((failed / sent) * 100) : 0,
+  };
+};
+
+/**
+ * Mediana redondeada de las muestras bajo carga, o null si no hubo respuestas
+ */
+export const summarizeLoadedLatency = (samples: number[]): number | null => {
+  return samples.length > 0 ? Math.round(median(samples)) : null;
+};
+
+/**
+ * Calificación A-F según cuánto empeora la latencia con el enlace saturado;
+ * se usa la peor de las dos direcciones medidas
+ */
+export const gradeBufferbloat = (latency: LatencyUnderLoad): BufferbloatGrade | null => {
+  const loaded = [latency.download, latency.upload].filter(
+    (value): value is number => value !== null,
+  );
+  if (loaded.length === 0) return null;
+
+  const increase = Math.max(0, Math.max(...loaded) - latency.idle);
+  const match = BUFFERBLOAT_THRESHOLDS.find(t => increase < t.maxIncrease);
+
+  return match ? match.grade : 'F';
+};
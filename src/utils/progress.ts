@@ -0,0 +1,166 @@
+/**
+ * Utilidades de progreso
+ * El progreso global y el tiempo restante salen de la duración prevista de
+ * cada fase, no de porcentajes fijos: así siguen siendo correctos si cambia
+ * testDuration, el número de pings o las fases que se ejecutan
+ */
+
+import {
+  PhaseSettings,
+  SpeedTestConfig,
+  TestPhase,
+  SPEED_TEST_CONSTANTS,
+} from '../types/SpeedTest';
+
+// Fases que avanzan la barra: la conexión previa más las de medida
+export type ProgressPhase = 'connecting' | TestPhase;
+
+export interface PlannedPhase {
+  phase: ProgressPhase;
+  plannedMs: number; // lo mínimo que dura; en una fase fija, lo que dura
+  maxMs: number; // igual a plannedMs salvo en fases adaptativas
+  settleMs: number; // margen que se sigue previendo mientras la fase no termina
+}
+
+// Límites de duración de download/upload
+export interface PhaseDuration {
+  minMs: number;
+  maxMs: number;
+  adaptive: boolean;
+}
+
+export type ProgressPlanInput = Pick<
+  SpeedTestConfig,
+  'plan' | 'testDuration' | 'pingSamples' | 'adaptiveDuration'
+>;
+
+export interface ProgressSnapshot {
+  progress: number; // 0-100
+  estimatedTimeRemaining: number; // segundos
+}
+
+// Preflight, descubrimiento de servidor y handshake: no dependen de la config
+const CONNECTING_ESTIMATE_MS = 3000;
+
+// Pausa entre pings más un RTT típico
+const PING_SAMPLE_ESTIMATE_MS = 150;
+
+/**
+ * Lo que el plan no fija sale de la configuración. Sin duración explícita y
+ * con el modo adaptativo activo, la fase dura de MIN a MAX_TEST_DURATION
+ * según se estabilice la velocidad; si no, exactamente la duración fijada
+ */
+export const resolvePhaseDuration = (
+  { durationSeconds }: Pick<PhaseSettings, 'durationSeconds'>,
+  { testDuration, adaptiveDuration }: Pick<SpeedTestConfig, 'testDuration' | 'adaptiveDuration'>,
+): PhaseDuration => {
+  if (durationSeconds === undefined && adaptiveDuration.enabled) {
+    return {
+      minMs: SPEED_TEST_CONSTANTS.MIN_TEST_DURATION * 1000,
+      maxMs: SPEED_TEST_CONSTANTS.MAX_TEST_DURATION * 1000,
+      adaptive: true,
+    };
+  }
+
+  const fixedMs = (durationSeconds ?? testDuration) * 1000;
+  return { minMs: fixedMs, maxMs: fixedMs, adaptive: false };
+};
+
+/**
+ * Duraciones previstas en el orden del plan. Una fase adaptativa se prevé
+ * en lo mínimo que puede durar (MIN_TEST_DURATION y una ventana estable);
+ * mientras no se estabiliza, computeProgress la va alargando hasta su máximo
+ */
+export const planPhases = ({
+  plan,
+  testDuration,
+  pingSamples,
+  adaptiveDuration,
+}: ProgressPlanInput): PlannedPhase[] => {
+  const planned: PlannedPhase[] = [fixedPhase('connecting', CONNECTING_ESTIMATE_MS)];
+
+  plan.phases.forEach(settings => {
+    if (settings.phase === 'ping') {
+      planned.push(fixedPhase('ping', Math.max(1, pingSamples) * PING_SAMPLE_ESTIMATE_MS));
+      return;
+    }
+
+    const { minMs, maxMs, adaptive } = resolvePhaseDuration(settings, {
+      testDuration,
+      adaptiveDuration,
+    });
+    planned.push(
+      adaptive
+        ? {
+            phase: settings.phase,
+            plannedMs: Math.max(minMs, adaptiveDuration.windowMs),
+            maxMs,
+            settleMs: adaptiveDuration.windowMs,
+          }
+        : fixedPhase(settings.phase, minMs),
+    );
+  });
+
+  return planned;
+};
+
+/**
+ * Sustituye la previsión de una fase ya terminada por lo que duró de
+ * verdad, para que la siguiente no arranque con un porcentaje menor
+ */
+export const completePhase = (
+  plan: PlannedPhase[],
+  phase: ProgressPhase,
+  elapsedMs: number,
+): PlannedPhase[] =>
+  plan.map(p => (p.phase === phase ? fixedPhase(phase, Math.max(0, elapsedMs)) : p));
+
+/**
+ * Posición dentro del plan estando `elapsedMs` dentro de `phase`. Una fase
+ * fija que se alarga (reintentos, servidor lento) se queda al 100% de su
+ * tramo en vez de invadir el de la siguiente; una adaptativa se alarga
+ * hasta su máximo
+ */
+export const computeProgress = (
+  plan: PlannedPhase[],
+  phase: ProgressPhase,
+  elapsedMs: number,
+): ProgressSnapshot => {
+  const index = plan.findIndex(p => p.phase === phase);
+
+  if (index === -1) {
+    const totalMs = plan.reduce((sum, p) => sum + p.plannedMs, 0);
+    return { progress: 0, estimatedTimeRemaining: Math.ceil(totalMs / 1000) };
+  }
+
+  const elapsed = Math.max(0, elapsedMs);
+  const current = plan[index];
+  const currentPhaseMs = Math.min(
+    current.maxMs,
+    Math.max(current.plannedMs, elapsed + current.settleMs),
+  );
+  const doneMs = plan.slice(0, index).reduce((sum, p) => sum + p.plannedMs, 0);
+  const pendingMs = plan.slice(index + 1).reduce((sum, p) => sum + p.plannedMs, 0);
+  const totalMs = doneMs + currentPhaseMs + pendingMs;
+  const currentMs = Math.min(elapsed, currentPhaseMs);
+
+  if (totalMs === 0) {
+    return { progress: 0, estimatedTimeRemaining: 0 };
+  }
+
+  return {
+    progress: ((doneMs + currentMs) / totalMs) * 100,
+    estimatedTimeRemaining: Math.ceil((totalMs - doneMs - currentMs) / 1000),
+  };
+};
+
+// ===============================
+// FUNCIONES AUXILIARES
+// ===============================
+
+const fixedPhase = (phase: ProgressPhase, durationMs: number): PlannedPhase => ({
+  phase,
+  plannedMs: durationMs,
+  maxMs: durationMs,
+  settleMs: 0,
+});
@@ -0,0 +1,60 @@
+/**
+ * Utilidades de reintento
+ * Funciones puras salvo la espera: la política decide cuántas veces y cuánto
+ * esperar, el llamador decide qué errores son transitorios
+ */
+
+import { RetryPolicy } from '../types/SpeedTest';
+import { abortableSleep } from './abort';
+
+export interface RetryOptions {
+  signal?: AbortSignal; // aborta también la espera entre intentos
+  isRetryable?: (error: unknown) => boolean;
+  onFailedAttempt?: (error: unknown, attempt: number, delayMs: number) => void;
+  random?: () => number; // inyectable para tests
+}
+
+/**
+ * Espera antes del reintento `attempt` (1 = primer reintento): exponencial
+ * acotada con "equal jitter", la mitad fija y la otra mitad aleatoria, para
+ * que varios clientes no reintenten a la vez sin llegar nunca a esperar 0
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number => {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped / 2 + random() * (capped / 2));
+};
+
+/**
+ * Ejecuta `operation` hasta 1 + policy.retries veces. Relanza el último
+ * error, o el primero que `isRetryable` rechace; cada fallo se notifica
+ * con la espera que le sigue (0 si ya no habrá otro intento)
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {},
+): Promise<T> => {
+  const maxAttempts = Math.max(1, policy.retries + 1);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryable = options.isRetryable?.(error) ?? true;
+      const isLast = attempt >= maxAttempts || !retryable;
+      const delayMs = isLast ? 0 : computeBackoffDelay(attempt, policy, options.random);
+
+      options.onFailedAttempt?.(error, attempt, delayMs);
+
+      if (isLast) {
+        throw error;
+      }
+      await abortableSleep(delayMs, options.signal);
+    }
+  }
+};
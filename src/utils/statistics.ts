@@ -0,0 +1,35 @@
+/**
+ * Estadística descriptiva básica
+ * Funciones puras compartidas por los estimadores de throughput y latencia
+ */
+
+export const mean = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+/**
+ * Percentil con interpolación lineal entre rangos (p en 0-100)
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Media tras descartar `fraction` de los valores por cada extremo
+ */
+export const trimmedMean = (values: number[], fraction: number): number => {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.floor(sorted.length * Math.min(Math.max(fraction, 0), 0.49));
+
+  return mean(sorted.slice(trim, sorted.length - trim));
+};
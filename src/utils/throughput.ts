@@ -0,0 +1,171 @@
+/**
+ * Medición de throughput
+ * Acumula bytes en ranuras de tiempo fijas para poder calcular velocidades
+ * instantáneas (ventana deslizante) sin guardar cada lectura individual
+ */
+
+import { ThroughputEstimator, ThroughputSample } from '../types/SpeedTest';
+import { mean, percentile, trimmedMean } from './statistics';
+
+// ===============================
+// CONVERSIONES
+// ===============================
+
+export const calculateMbps = (bytes: number, elapsedMs: number): number => {
+  if (elapsedMs <= 0) return 0;
+
+  const bitsPerSecond = (bytes * 8) / (elapsedMs / 1000);
+  return bitsPerSecond / 1e6;
+};
+
+// ===============================
+// MEDIDOR
+// ===============================
+
+const DEFAULT_RESOLUTION_MS = 50;
+
+export class ThroughputMeter {
+  private readonly startTime: number;
+  private readonly resolutionMs: number;
+  private slots: number[] = [];
+  private bytes = 0;
+
+  constructor(startTime: number = Date.now(), resolutionMs: number = DEFAULT_RESOLUTION_MS) {
+    this.startTime = startTime;
+    this.resolutionMs = resolutionMs;
+  }
+
+  get totalBytes(): number {
+    return this.bytes;
+  }
+
+  record(bytes: number, now: number = Date.now()): void {
+    this.addToSlot(this.slotAt(now), bytes);
+    this.bytes += bytes;
+  }
+
+  /**
+   * Reparte `bytes` uniformemente entre `from` y `to`; para transferencias
+   * que solo se confirman al final (uploads), evita picos artificiales
+   */
+  recordSpan(bytes: number, from: number, to: number = Date.now()): void {
+    const firstSlot = this.slotAt(from);
+    const lastSlot = this.slotAt(to);
+    const perSlot = bytes / (lastSlot - firstSlot + 1);
+
+    for (let slot = firstSlot; slot <= lastSlot; slot++) {
+      this.addToSlot(slot, perSlot);
+    }
+    this.bytes += bytes;
+  }
+
+  /**
+   * Velocidad sobre los últimos `windowMs`; al inicio de la fase la ventana
+   * se acorta al tiempo transcurrido para no subestimar
+   */
+  rollingMbps(windowMs: number, now: number = Date.now()): number {
+    const elapsedMs = now - this.startTime;
+    const effectiveWindow = Math.min(windowMs, elapsedMs);
+    if (effectiveWindow <= 0) return 0;
+
+    const lastSlot = Math.floor(elapsedMs / this.resolutionMs);
+    const firstSlot = Math.max(0, lastSlot - Math.ceil(effectiveWindow / this.resolutionMs) + 1);
+
+    let windowBytes = 0;
+    for (let slot = firstSlot; slot <= lastSlot && slot < this.slots.length; slot++) {
+      windowBytes += this.slots[slot];
+    }
+
+    return calculateMbps(windowBytes, effectiveWindow);
+  }
+
+  /**
+   * Velocidad de cada intervalo completo de `bucketMs` entre `fromMs` y
+   * `toMs` (relativos al inicio de la fase)
+   */
+  bucketMbps(bucketMs: number, fromMs: number, toMs: number): number[] {
+    const slotsPerBucket = Math.max(1, Math.round(bucketMs / this.resolutionMs));
+    const bucketDuration = slotsPerBucket * this.resolutionMs;
+    const firstSlot = Math.ceil(fromMs / this.resolutionMs);
+    const endSlot = Math.floor(toMs / this.resolutionMs);
+    const buckets: number[] = [];
+
+    for (let start = firstSlot; start + slotsPerBucket <= endSlot; start += slotsPerBucket) {
+      let bucketBytes = 0;
+      for (let slot = start; slot < start + slotsPerBucket; slot++) {
+        bucketBytes += this.slots[slot] ?? 0;
+      }
+      buckets.push(calculateMbps(bucketBytes, bucketDuration));
+    }
+
+    return buckets;
+  }
+
+  private slotAt(time: number): number {
+    return Math.max(0, Math.floor((time - this.startTime) / this.resolutionMs));
+  }
+
+  private addToSlot(slot: number, bytes: number): void {
+    while (this.slots.length <= slot) {
+      this.slots.push(0);
+    }
+    this.slots[slot] += bytes;
+  }
+}
+
+// ===============================
+// ESTIMADOR FINAL
+// ===============================
+
+/**
+ * Velocidad final de una fase: descarta el calentamiento (slow-start y
+ * tiempo hasta el primer byte) y agrega los intervalos restantes según
+ * el método configurado
+ */
+export const estimateThroughput = (
+  meter: ThroughputMeter,
+  estimator: ThroughputEstimator,
+  elapsedMs: number,
+): number => {
+  const buckets = meter.bucketMbps(estimator.bucketMs, estimator.warmupMs, elapsedMs);
+
+  // Fase demasiado corta para descartar el calentamiento
+  if (buckets.length === 0) {
+    return calculateMbps(meter.totalBytes, elapsedMs);
+  }
+
+  switch (estimator.method) {
+    case 'p90':
+      return percentile(buckets, 90);
+    case 'trimmed-mean':
+      return trimmedMean(buckets, estimator.trimFraction);
+    case 'mean':
+    default:
+      return mean(buckets);
+  }
+};
+
+/**
+ * Si las muestras de los últimos `windowMs` se mantienen todas a menos de
+ * `tolerance` (fracción) de su media. Una velocidad que sigue subiendo no
+ * pasa el filtro, así que la fase continúa
+ */
+export const isThroughputStable = (
+  samples: ThroughputSample[],
+  windowMs: number,
+  tolerance: number,
+): boolean => {
+  if (samples.length < 2) return false;
+
+  const lastMs = samples[samples.length - 1].elapsedMs;
+  if (lastMs < windowMs) return false;
+
+  const window = samples.filter(sample => sample.elapsedMs > lastMs - windowMs);
+  const average = mean(window.map(sample => sample.mbps));
+
+  return (
+    window.length >= 2 &&
+    average > 0 &&
+    window.every(sample => Math.abs(sample.mbps - average) <= average * tolerance)
+  );
+};
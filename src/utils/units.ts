@@ -0,0 +1,93 @@
+/**
+ * Unidades de velocidad
+ * El valor canónico almacenado es Mbps decimal (SI, 10^6 bits/s);
+ * las demás unidades solo se usan para mostrar
+ */
+
+import { SpeedTestResult, SpeedUnit } from '../types/SpeedTest';
+
+// ===============================
+// CONVERSIÓN
+// ===============================
+
+// Cuántas unidades equivalen a 1 Mbps decimal
+const UNITS_PER_MBPS: Record<SpeedUnit, number> = {
+  Kbps: 1000,
+  Mbps: 1,
+  Gbps: 0.001,
+  Mibps: 1e6 / (1024 * 1024),
+  'MB/s': 1 / 8,
+};
+
+export const convertSpeed = (mbps: number, unit: SpeedUnit): number => {
+  return mbps * UNITS_PER_MBPS[unit];
+};
+
+/**
+ * Valor convertido con más decimales cuanto menor es la cifra
+ */
+export const formatSpeed = (mbps: number, unit: SpeedUnit): string => {
+  const value = convertSpeed(mbps, unit);
+
+  if (value < 1) {
+    return value.toFixed(2);
+  } else if (value < 10) {
+    return value.toFixed(1);
+  }
+  return Math.round(value).toString();
+};
+
+export const formatSpeedWithUnit = (mbps: number, unit: SpeedUnit): string => {
+  return `${formatSpeed(mbps, unit)} ${unit}`;
+};
+
+// ===============================
+// VOLUMEN DE DATOS
+// ===============================
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Bytes en múltiplos decimales, coherente con los Mbps SI
+ */
+export const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let index = 0;
+
+  while (value >= 1000 && index < BYTE_UNITS.length - 1) {
+    value /= 1000;
+    index += 1;
+  }
+
+  const digits = index === 0 || value >= 100 ? 0 : 1;
+  return `${value.toFixed(digits)} ${BYTE_UNITS[index]}`;
+};
+
+// ===============================
+// MIGRACIÓN DE HISTORIAL
+// ===============================
+
+// Los resultados antiguos dividían entre 1024 * 1024 pero se etiquetaban Mbps
+const LEGACY_BINARY_TO_DECIMAL = (1024 * 1024) / 1e6;
+
+const scale = (value: number): number => Math.round(value * LEGACY_BINARY_TO_DECIMAL * 100) / 100;
+
+/**
+ * Convierte a Mbps decimales un resultado guardado antes de unitSystem
+ */
+export const migrateLegacySpeedUnits = (result: SpeedTestResult): SpeedTestResult => {
+  if (result.unitSystem === 'si') {
+    return result;
+  }
+
+  return {
+    ...result,
+    unitSystem: 'si',
+    downloadSpeed: scale(result.downloadSpeed),
+    uploadSpeed: scale(result.uploadSpeed),
+    downloadConnections: result.downloadConnections?.map(c => ({ ...c, speed: scale(c.speed) })),
+    uploadConnections: result.uploadConnections?.map(c => ({ ...c, speed: scale(c.speed) })),
+    downloadSamples: result.downloadSamples?.map(s => ({ ...s, mbps: scale(s.mbps) })),
+    uploadSamples: result.uploadSamples?.map(s => ({ ...s, mbps: scale(s.mbps) })),
+  };
+};